@@ -0,0 +1,111 @@
+/**
+ * BUILD-TIME ONLY (Node.js) - Static pre-rendering for `pnpm build:static`
+ *
+ * Static hosts like GitHub Pages can't run server.tsx. This script runs the
+ * built server entry once per route instead, and writes each page as a
+ * plain HTML file into dist/client:
+ *
+ *   /                  -> index.html            (default demo)
+ *   /suspense          -> suspense/index.html   (one per demo route)
+ *   any unknown path   -> 404.html              (the NotFound page)
+ *
+ * Unlike src/server/app.ts it waits for EVERY Suspense boundary
+ * (onAllReady), so the files contain the finished content and the
+ * hydration data, and main.tsx hydrates them exactly like a streamed page.
+ *
+ * BASE_URL has to be set for the whole build (client, server and this
+ * script), e.g. BASE_URL=/react-19-demo/ pnpm build:static.
+ *
+ * What still needs a server: the RSC endpoint and Server Actions. Those
+ * requests fail on a static host and the demos show their error states.
+ *
+ * NEVER runs in the browser.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Writable } from "node:stream";
+
+const outDir = "./dist/client";
+// A build must not hang on a promise that never settles
+const renderTimeout = 30000;
+
+// Built by `pnpm build:server`
+const { demoRoutes, preloadDemos, render } = await import(
+  "./dist/server/entry-server.js"
+);
+await preloadDemos();
+
+const ssrManifest = await fs.readFile(
+  `${outDir}/.vite/ssr-manifest.json`,
+  "utf-8"
+);
+
+// index.html is about to be replaced, so the original template is kept in
+// .vite/ (src/server/app.ts reads it from there) and reused by later runs
+const templatePath = `${outDir}/.vite/index.html`;
+const template = await fs
+  .readFile(templatePath, "utf-8")
+  .catch(() => fs.readFile(`${outDir}/index.html`, "utf-8"));
+if (!template.includes("<!--app-html-->")) {
+  throw new Error(`${outDir}/index.html has no <!--app-html--> placeholder. Run pnpm build:client first.`);
+}
+await fs.writeFile(templatePath, template);
+const [htmlStart, htmlEnd] = template.split("<!--app-html-->");
+
+// Renders one URL to a complete document. Any render error fails the
+// build: a static page can't retry on the server later
+function renderPage(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const { pipe, abort, getHead, getDataScript } = render(url, ssrManifest, {
+      onShellError: reject,
+      onAllReady() {
+        clearTimeout(abortTimer);
+        const sink = new Writable({
+          write(chunk, _encoding, callback) {
+            chunks.push(Buffer.from(chunk));
+            callback();
+          },
+          final(callback) {
+            resolve(
+              htmlStart.replace("<!--app-head-->", getHead()) +
+                Buffer.concat(chunks).toString("utf-8") +
+                htmlEnd.replace("<!--app-data-->", getDataScript())
+            );
+            callback();
+          },
+        });
+        pipe(sink);
+      },
+      onError(error: unknown) {
+        reject(error);
+      },
+    });
+    const abortTimer = setTimeout(() => {
+      abort();
+      reject(new Error(`Rendering ${url} took longer than ${renderTimeout}ms`));
+    }, renderTimeout);
+  });
+}
+
+const pages: { url: string; file: string }[] = [
+  { url: "/", file: "index.html" },
+  ...demoRoutes.map(({ path: routePath }: { path: string }) => ({
+    url: routePath,
+    file: `${routePath.slice(1)}/index.html`,
+  })),
+  // GitHub Pages serves 404.html for every path it doesn't know
+  { url: "/404", file: "404.html" },
+];
+
+for (const { url, file } of pages) {
+  const start = performance.now();
+  const html = await renderPage(url);
+  const filePath = path.join(outDir, file);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, html);
+  console.log(
+    `  ${url.padEnd(20)} -> ${filePath} (${Math.round(performance.now() - start)}ms)`
+  );
+}
@@ -2,84 +2,97 @@
  * SERVER-SIDE ONLY (Node.js/Express)
  *
  * This file runs exclusively on the server (Node.js runtime).
- * It sets up an Express server that:
- * 1. Serves static assets (CSS, JS, images)
- * 2. Performs Server-Side Rendering (SSR) for each request
- * 3. Returns fully rendered HTML to the browser
+ * It reads the configuration from the environment, builds the Express app
+ * (see src/server/app.ts for everything it serves) and:
+ * 1. Listens on PORT
+ * 2. Shuts down gracefully on SIGTERM, letting in-flight renders finish
  *
  * NEVER runs in the browser.
  */
 
-import fs from "node:fs/promises";
-import express from "express";
+import { demoLatency, withFaults } from "./src/data/source";
+import { createServer } from "./src/server/app";
+import { createJsonFileSource } from "./src/server/jsonSource";
+import { createLogger } from "./src/server/logger";
 
 const isProduction = process.env.NODE_ENV === "production";
 const port = process.env.PORT || 5173;
 const base = process.env.BASE || "/";
+// How long (ms) to wait for pending Suspense boundaries before giving up.
+// On abort, unresolved boundaries are left to render on the client.
+const abortDelay = Number(process.env.SSR_ABORT_DELAY) || 10000;
+// How long (ms) a shutdown waits for in-flight renders before aborting them
+const shutdownTimeout =
+  Number(process.env.SHUTDOWN_TIMEOUT) || abortDelay + 5000;
 
-const templateHtml = isProduction
-  ? await fs.readFile("./dist/client/index.html", "utf-8")
-  : "";
-const ssrManifest = isProduction
-  ? await fs.readFile("./dist/client/.vite/ssr-manifest.json", "utf-8")
-  : undefined;
+// The demos' data, served by the REST API and read directly during SSR.
+// Latency and failures can be injected: API_LATENCY (ms, replaces the
+// demo's own per-call delays), API_JITTER (ms) and API_ERROR_RATE (0-1)
+const dataSource = withFaults(
+  createJsonFileSource(process.env.DATA_FILE || "./src/data/fixtures.json"),
+  {
+    latency: process.env.API_LATENCY ? Number(process.env.API_LATENCY) : demoLatency,
+    jitter: Number(process.env.API_JITTER) || 0,
+    errorRate: Number(process.env.API_ERROR_RATE) || 0,
+  }
+);
 
-const app = express();
+// PAGE_CACHE=1 keeps rendered pages in memory, each route for its own TTL
+// (production only, see src/server/httpCache.ts)
+const pageCache = process.env.PAGE_CACHE === "1" ? {} : false;
 
-let vite: any;
-if (!isProduction) {
-  const { createServer } = await import("vite");
-  vite = await createServer({
-    server: { middlewareMode: true },
-    appType: "custom",
-    base,
-  });
-  app.use(vite.middlewares);
-} else {
-  const compression = (await import("compression")).default;
-  const sirv = (await import("sirv")).default;
-  app.use(compression());
-  app.use(base, sirv("./dist/client", { extensions: [] }));
-}
+// CSP_REPORT_ONLY=1 only reports Content Security Policy violations (they're
+// logged), without blocking anything (see src/server/security.ts)
+const csp = process.env.CSP_REPORT_ONLY === "1" ? "report-only" : "enforce";
 
-// SSR middleware - handles ALL page requests
-app.use(async (req, res) => {
-  try {
-    const url = req.originalUrl.replace(base, "");
+// Structured JSON logs; stack traces are only logged in development
+const logger = createLogger({ includeStack: !isProduction });
 
-    let template;
-    let render;
-    if (!isProduction) {
-      // DEV: Load template and transform it with Vite
-      template = await fs.readFile("./index.html", "utf-8");
-      template = await vite.transformIndexHtml(url, template);
-      // Load the server-side render function (runs in Node.js)
-      render = (await vite.ssrLoadModule("/src/entry-server.tsx")).render;
-    } else {
-      // PROD: Use pre-built template and server bundle
-      template = templateHtml;
-      render = (await import("./dist/server/entry-server.js")).render;
-    }
+const { app, inFlightRenders, drain, close } = await createServer({
+  mode: isProduction ? "production" : "development",
+  base,
+  dataSource,
+  logger,
+  abortDelay,
+  pageCache,
+  csp,
+});
+
+const server = app.listen(port, () => {
+  logger.info("server started", {
+    url: `http://localhost:${port}${base}`,
+    mode: isProduction ? "production" : "development",
+  });
+});
 
-    // SERVER-SIDE RENDERING: Call render() which executes React components on the server
-    // This generates the initial HTML string that will be sent to the browser
-    const rendered = await render(url, ssrManifest);
+// Graceful shutdown: stop accepting connections, let in-flight renders
+// finish streaming, then exit. Renders still running after
+// `shutdownTimeout` are aborted, which flushes their pending boundaries as
+// client-rendered fallbacks, so clients still get a complete document
+let shuttingDown = false;
+function shutdown(signal: NodeJS.Signals) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info("shutting down", { signal, inFlightRenders: inFlightRenders.size });
 
-    // Inject the server-rendered HTML into the template
-    const html = template
-      .replace(`<!--app-head-->`, rendered.head ?? "")
-      .replace(`<!--app-html-->`, rendered.html ?? "");
+  // Keep-alive connections would otherwise hold the server open
+  drain(() => server.closeIdleConnections());
+  server.close(async () => {
+    await close();
+    logger.info("shutdown complete");
+    process.exit(0);
+  });
+  server.closeIdleConnections();
 
-    // Send the fully rendered HTML to the browser
-    // The browser will then "hydrate" this HTML with JavaScript to make it interactive
-    res.status(200).set({ "Content-Type": "text/html" }).send(html);
-  } catch (e: any) {
-    vite?.ssrFixStacktrace(e);
-    console.log(e.stack);
-    res.status(500).end(e.stack);
-  }
-});
+  setTimeout(() => {
+    logger.warn("shutdown timed out, aborting in-flight renders", {
+      inFlightRenders: inFlightRenders.size,
+    });
+    for (const abort of inFlightRenders) abort();
+    // Give the aborted streams a moment to flush, then drop everything
+    setTimeout(() => server.closeAllConnections(), 1000).unref();
+  }, shutdownTimeout).unref();
+}
 
-app.listen(port, () => {
-  console.log(`Server started at http://localhost:${port}`);
-});
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
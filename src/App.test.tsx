@@ -1,10 +1,26 @@
-import { render, screen } from '@testing-library/react'
+import { act, render, screen } from '@testing-library/react'
 import { describe, it, expect } from 'vitest'
 import App from './App'
+import { createDataCache } from './data/cache'
+import { DataCacheContext } from './data/context'
 
 describe('App', () => {
-  it('renders the Vite + React heading', () => {
-    render(<App />)
-    expect(screen.getByText('Vite + React')).toBeInTheDocument()
+  it('renders the header and a link to every demo', async () => {
+    // renderStats measures the demos in a microtask after each commit, and
+    // KeepAlivePanel re-renders with the result: an async act waits for it
+    await act(async () => {
+      render(
+        <DataCacheContext value={createDataCache()}>
+          <App />
+        </DataCacheContext>
+      )
+    })
+    expect(screen.getByRole('heading', { level: 1, name: 'React 19 Features Demo' })).toBeInTheDocument()
+    expect(screen.getAllByRole('link').map((link) => link.getAttribute('href'))).toEqual([
+      '/suspense',
+      '/activity',
+      '/view-transitions',
+      '/server-components',
+    ])
   })
 })
@@ -4,36 +4,82 @@
  * Execution flow:
  *
  * 1. SERVER (entry-server.tsx):
- *    - Component executes during SSR (renderToString)
- *    - useState initializes with default value ("suspense")
+ *    - Component executes during SSR (renderToPipeableStream)
+ *    - The request URL (passed as a prop) selects the active demo
  *    - Event handlers (onClick) are ignored on server
  *    - Returns HTML string with initial state
  *
  * 2. CLIENT (main.tsx):
  *    - Component executes again during hydration
- *    - useState re-initializes with same default value
+ *    - The URL is read from window.location (same URL as the server saw)
  *    - React matches server HTML with client render
  *    - Attaches event handlers to make buttons interactive
- *    - setState now works and causes re-renders
+ *    - Navigation now works through the History API and causes re-renders
  *
  * Key point: This code runs TWICE (once server, once client)
  * But the user only sees ONE seamless experience.
  */
 
-import { useState } from "react";
-import { SuspenseDemo } from "./demos/SuspenseDemo";
-import { ActivityDemo } from "./demos/ActivityDemo";
-import { ViewTransitionsDemo } from "./demos/ViewTransitionsDemo";
-import { ServerComponentsDemo } from "./demos/ServerComponentsDemo";
+import { Activity, Profiler, Suspense, useEffect, useState } from "react";
+import { demoComponents, demoModuleId } from "./demos";
+import { NotFound } from "./NotFound";
+import { KeepAlivePanel } from "./KeepAlivePanel";
+import { applyHead, headForRoute } from "./head";
+import { mountedDemos, renderStats, touchDemo, useKeepAliveSettings } from "./keepAlive";
+import { useCollectModule } from "./preload";
+import {
+  demoRoutes,
+  matchRoute,
+  type Demo,
+  navigate,
+  usePathname,
+  withBase,
+} from "./router";
 import "./App.css";
 
-type Demo = "suspense" | "activity" | "viewtransitions" | "servercomponents";
+function App({ url }: { url?: string }) {
+  // The URL decides which demo is active
+  // - Server: the request URL is passed in from entry-server.tsx
+  // - Client: read from window.location, updated by navigate() and back/forward
+  const route = matchRoute(usePathname(url));
+  const activeDemo = route.type === "not-found" ? null : route.demo;
+  // Server only: lets the <head> preload the active demo's chunk
+  useCollectModule(activeDemo && demoModuleId(activeDemo));
 
-function App() {
-  // useState: Works differently on server vs client
-  // - Server: Only uses initial value, no re-renders possible
-  // - Client: Full state management with re-renders
-  const [activeDemo, setActiveDemo] = useState<Demo>("suspense");
+  // Demos in most-recently-used order, for keeping hidden ones alive.
+  // Updated while rendering (not in an effect) so a tab switch renders the
+  // new list right away
+  const [recentDemos, setRecentDemos] = useState<Demo[]>(activeDemo ? [activeDemo] : []);
+  if (activeDemo && recentDemos[0] !== activeDemo) {
+    setRecentDemos(touchDemo(recentDemos, activeDemo));
+  }
+  // Off by default, and always off during SSR and hydration (see keepAlive.ts)
+  const [keepAlive] = useKeepAliveSettings();
+  const mounted = mountedDemos(recentDemos, activeDemo, keepAlive);
+  const mountedKey = mounted.join();
+  useEffect(() => {
+    // Unmounted demos fire no <Profiler> callback, so measure again
+    renderStats.refresh();
+  }, [mountedKey]);
+
+  // Index redirect on the client (e.g. static hosting without a server).
+  // With SSR the server answers "/" with an HTTP redirect instead.
+  const redirectTo = route.type === "redirect" ? route.to : null;
+  useEffect(() => {
+    if (redirectTo) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [redirectTo]);
+
+  // Keep <head> in sync on client navigation. The server already rendered
+  // the same tags into the HTML (see entry-server.tsx), so the first run
+  // after hydration changes nothing
+  const headRoute = route.type === "not-found" ? null : route.demo;
+  useEffect(() => {
+    applyHead(
+      headForRoute(headRoute ? { type: "demo", demo: headRoute } : { type: "not-found" })
+    );
+  }, [headRoute]);
 
   return (
     <div className="app">
@@ -43,42 +89,59 @@ function App() {
       </header>
 
       <nav className="demo-nav">
-        <button
-          className={`nav-button ${activeDemo === "suspense" ? "active" : ""}`}
-          onClick={() => setActiveDemo("suspense")}
-        >
-          Suspense
-        </button>
-        <button
-          className={`nav-button ${activeDemo === "activity" ? "active" : ""}`}
-          onClick={() => setActiveDemo("activity")}
-        >
-          Activity
-        </button>
-        <button
-          className={`nav-button ${
-            activeDemo === "viewtransitions" ? "active" : ""
-          }`}
-          onClick={() => setActiveDemo("viewtransitions")}
-        >
-          View Transitions
-        </button>
-        <button
-          className={`nav-button ${
-            activeDemo === "servercomponents" ? "active" : ""
-          }`}
-          onClick={() => setActiveDemo("servercomponents")}
-        >
-          Server Components
-        </button>
+        {/* Real links: they work before hydration and can be opened in a new tab */}
+        {demoRoutes.map(({ demo, path, label }) => (
+          <a
+            key={demo}
+            href={withBase(path)}
+            className={`nav-button ${activeDemo === demo ? "active" : ""}`}
+            aria-current={activeDemo === demo ? "page" : undefined}
+            onClick={(e) => {
+              // Let the browser handle modified clicks (new tab, etc.)
+              if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+              e.preventDefault();
+              navigate(path);
+            }}
+          >
+            {label}
+          </a>
+        ))}
       </nav>
 
       <main className="demo-content">
-        {activeDemo === "suspense" && <SuspenseDemo />}
-        {activeDemo === "activity" && <ActivityDemo />}
-        {activeDemo === "viewtransitions" && <ViewTransitionsDemo />}
-        {activeDemo === "servercomponents" && <ServerComponentsDemo />}
+        {/* Every mounted demo sits in its own <Activity>: only the active one
+            is visible, hidden ones keep their state. Without the keep-alive
+            setting only the active demo is mounted */}
+        {demoRoutes.map(({ demo }) => {
+          if (!mounted.includes(demo)) return null;
+          // Each demo is a lazily loaded chunk (see demos/index.ts)
+          const DemoComponent = demoComponents[demo];
+          return (
+            <Activity key={demo} mode={demo === activeDemo ? "visible" : "hidden"}>
+              <div className="demo-slot" data-demo={demo}>
+                <Profiler id={demo} onRender={renderStats.record}>
+                  {/* Shown while a demo's chunk downloads on its first visit.
+                      Never during SSR or hydration: the active chunk is
+                      loaded up front */}
+                  <Suspense
+                    fallback={
+                      <div className="loading-spinner">
+                        <div className="spinner"></div>
+                        <span>Loading demo...</span>
+                      </div>
+                    }
+                  >
+                    <DemoComponent />
+                  </Suspense>
+                </Profiler>
+              </div>
+            </Activity>
+          );
+        })}
+        {!activeDemo && <NotFound />}
       </main>
+
+      <KeepAlivePanel activeDemo={activeDemo} mounted={mounted} />
     </div>
   );
 }
@@ -0,0 +1,69 @@
+import { Suspense, use } from 'react'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { ErrorBoundary } from './ErrorBoundary'
+import { createDataCache } from './data/cache'
+
+describe('ErrorBoundary', () => {
+  it('shows the rejection and refetches on retry', async () => {
+    const cache = createDataCache()
+    const fetcher = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce('Ada')
+    const onRetry = vi.fn(() => cache.invalidate('user:1'))
+
+    function User() {
+      return <p>{use(cache.get('user:1', fetcher))}</p>
+    }
+
+    // React logs errors caught by boundaries
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    // The async act() lets React retry once the promise has settled
+    await act(async () => {
+      render(
+        <ErrorBoundary label="user" onRetry={onRetry}>
+          <Suspense fallback={<p>Loading...</p>}>
+            <User />
+          </Suspense>
+        </ErrorBoundary>
+      )
+    })
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      "Couldn't load user. Network error"
+    )
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Try again' }))
+    })
+
+    expect(screen.getByText('Ada')).toBeInTheDocument()
+    expect(onRetry).toHaveBeenCalledOnce()
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    consoleError.mockRestore()
+  })
+
+  it('clears the error when a reset key changes', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    function User({ id }: { id: number }) {
+      if (id === 1) throw new Error('User 1 not found')
+      return <p>User {id}</p>
+    }
+
+    const { rerender } = render(
+      <ErrorBoundary label="user" resetKeys={[1]}>
+        <User id={1} />
+      </ErrorBoundary>
+    )
+    expect(screen.getByRole('alert')).toHaveTextContent('User 1 not found')
+
+    rerender(
+      <ErrorBoundary label="user" resetKeys={[2]}>
+        <User id={2} />
+      </ErrorBoundary>
+    )
+    expect(screen.getByText('User 2')).toBeInTheDocument()
+    consoleError.mockRestore()
+  })
+})
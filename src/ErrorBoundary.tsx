@@ -0,0 +1,89 @@
+/**
+ * UNIVERSAL COMPONENT (Runs on BOTH server and client)
+ *
+ * Catches errors thrown while rendering its children, including promises
+ * read with use() that reject, and shows a fallback with a retry button.
+ *
+ * Server execution (entry-server.tsx):
+ * - Error boundaries don't catch during SSR. If a child throws inside a
+ *   <Suspense>, React streams that boundary's fallback instead and logs the
+ *   error through onError in src/server/app.ts; the client then renders the
+ *   boundary itself, and THIS component catches the error there
+ * - In production, React only sends an opaque digest for such errors,
+ *   never the message or stack
+ *
+ * Client execution (main.tsx):
+ * - getDerivedStateFromError switches to the fallback
+ * - Retry calls onRetry (e.g. to clear the failed cache entry) and renders
+ *   the children again, which starts a fresh request
+ *
+ * Error boundaries still have to be class components in React 19.
+ */
+
+import { Component, type ReactNode } from "react";
+
+interface ErrorBoundaryProps {
+  children: ReactNode;
+  /** What failed, for the default fallback ("user", "posts", ...). */
+  label?: string;
+  /** Called before re-rendering the children, e.g. to invalidate a cache entry. */
+  onRetry?: () => void;
+  /** Custom fallback UI. */
+  fallback?: (error: unknown, retry: () => void) => ReactNode;
+  /**
+   * Clears the error when any of these change (e.g. the id that failed to
+   * load). Unlike a `key`, it doesn't remount the children, so a pending
+   * transition can keep showing their previous content.
+   */
+  resetKeys?: unknown[];
+}
+
+interface ErrorBoundaryState {
+  hasError: boolean;
+  error: unknown;
+}
+
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { hasError: false, error: null };
+
+  static getDerivedStateFromError(error: unknown): ErrorBoundaryState {
+    return { hasError: true, error };
+  }
+
+  componentDidUpdate(prevProps: ErrorBoundaryProps) {
+    const { resetKeys = [] } = this.props;
+    const prevKeys = prevProps.resetKeys ?? [];
+    if (
+      this.state.hasError &&
+      (resetKeys.length !== prevKeys.length ||
+        resetKeys.some((key, i) => !Object.is(key, prevKeys[i])))
+    ) {
+      this.setState({ hasError: false, error: null });
+    }
+  }
+
+  retry = () => {
+    this.props.onRetry?.();
+    this.setState({ hasError: false, error: null });
+  };
+
+  render() {
+    const { hasError, error } = this.state;
+    if (!hasError) return this.props.children;
+
+    if (this.props.fallback) return this.props.fallback(error, this.retry);
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return (
+      <div className="error-box" role="alert">
+        <p>
+          <strong>Couldn't load {this.props.label ?? "this section"}.</strong>{" "}
+          {message}
+        </p>
+        <button onClick={this.retry} className="demo-button">
+          Try again
+        </button>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * UNIVERSAL COMPONENT (Runs on BOTH server and client)
+ *
+ * Settings for keeping hidden demos alive with <Activity> (see
+ * keepAlive.ts), and what that costs: which demos are mounted, how often
+ * and how long they rendered, and how much DOM they keep around.
+ *
+ * Server execution (entry-server.tsx):
+ * - Renders the default settings and an empty cost table: the numbers
+ *   only exist in the browser
+ *
+ * Client execution (main.tsx):
+ * - Hydrates the same, then shows the saved settings and live numbers
+ */
+
+import { useSyncExternalStore } from "react";
+import { demoRoutes, type Demo } from "./router";
+import { renderStats, useKeepAliveSettings, type RenderStats } from "./keepAlive";
+
+const emptyStats: RenderStats = {};
+
+function formatStatus(demo: Demo, activeDemo: Demo | null, mounted: Demo[]) {
+  if (demo === activeDemo) return "visible";
+  return mounted.includes(demo) ? "hidden" : "unmounted";
+}
+
+export function KeepAlivePanel({
+  activeDemo,
+  mounted,
+}: {
+  activeDemo: Demo | null;
+  mounted: Demo[];
+}) {
+  const [settings, setSettings] = useKeepAliveSettings();
+  const stats = useSyncExternalStore(
+    renderStats.subscribe,
+    renderStats.getSnapshot,
+    () => emptyStats
+  );
+
+  const rows = demoRoutes.map(({ demo, label }) => ({
+    demo,
+    label,
+    status: formatStatus(demo, activeDemo, mounted),
+    cost: stats[demo],
+  }));
+  const totalNodes = rows.reduce((sum, { cost }) => sum + (cost?.domNodes ?? 0), 0);
+  const hiddenNodes = rows
+    .filter(({ status }) => status === "hidden")
+    .reduce((sum, { cost }) => sum + (cost?.domNodes ?? 0), 0);
+
+  return (
+    <details className="keep-alive-panel">
+      <summary>Tab state: keep hidden demos alive with &lt;Activity&gt;</summary>
+
+      <div className="demo-controls">
+        <label className="demo-toggle">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => {
+              const enabled = e.target.checked;
+              setSettings((current) => ({ ...current, enabled }));
+            }}
+          />
+          Keep demos alive when switching tabs
+        </label>
+        <label className="demo-toggle">
+          Keep up to
+          <select
+            value={settings.maxHidden}
+            disabled={!settings.enabled}
+            onChange={(e) => {
+              const maxHidden = Number(e.target.value);
+              setSettings((current) => ({ ...current, maxHidden }));
+            }}
+          >
+            {[1, 2, 3].map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+          hidden
+        </label>
+        <label className="demo-toggle">
+          <input
+            type="checkbox"
+            checked={settings.prerender}
+            disabled={!settings.enabled}
+            onChange={(e) => {
+              const prerender = e.target.checked;
+              setSettings((current) => ({ ...current, prerender }));
+            }}
+          />
+          Pre-render unvisited demos
+        </label>
+      </div>
+
+      <table className="cost-table">
+        <thead>
+          <tr>
+            <th>Demo</th>
+            <th>Status</th>
+            <th>Renders</th>
+            <th>Render time</th>
+            <th>DOM nodes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ demo, label, status, cost }) => (
+            <tr key={demo} className={status}>
+              <td>{label}</td>
+              <td>{status}</td>
+              <td>{cost?.renders ?? "–"}</td>
+              <td>{cost ? `${cost.renderMs.toFixed(1)}ms` : "–"}</td>
+              <td>{cost?.domNodes ?? "–"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="info-text">
+        {mounted.length} of {demoRoutes.length} demos mounted, {totalNodes} DOM
+        nodes ({hiddenNodes} in hidden demos). Without Activity only the
+        visible demo is mounted, and leaving a tab throws its state away.{" "}
+        <button onClick={renderStats.reset} className="back-button">
+          Reset counts
+        </button>
+      </p>
+      <p className="info-text">
+        Render counts and times come from &lt;Profiler&gt;, which only reports
+        in development and profiling builds.
+      </p>
+    </details>
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * UNIVERSAL COMPONENT (Runs on BOTH server and client)
+ *
+ * Rendered by App for any URL that doesn't match a demo route.
+ * On the server, src/server/app.ts also sends a 404 status with it.
+ */
+
+import { defaultDemo, navigate, pathForDemo, withBase } from "./router";
+
+export function NotFound() {
+  const homePath = pathForDemo(defaultDemo);
+
+  return (
+    <div className="demo-section not-found">
+      <h2>Page not found</h2>
+      <p className="demo-description">
+        There is no demo at this address. Pick one from the navigation above.
+      </p>
+      <a
+        href={withBase(homePath)}
+        className="demo-button"
+        onClick={(e) => {
+          e.preventDefault();
+          navigate(homePath);
+        }}
+      >
+        Back to the demos
+      </a>
+    </div>
+  );
+}
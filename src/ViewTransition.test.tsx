@@ -0,0 +1,29 @@
+import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { ViewTransition } from './ViewTransition'
+import { ReactViewTransition, startComponentTransition, startViewTransition } from './transitions'
+
+describe('ViewTransition', () => {
+  it.skipIf(ReactViewTransition)('names the child and sets every class without React support', () => {
+    render(
+      <ViewTransition name="detail" enter="vt-slide-in" exit="vt-fade-out">
+        <p style={{ color: 'red' }}>Details</p>
+      </ViewTransition>
+    )
+
+    const element = screen.getByText('Details')
+    expect(element.style.viewTransitionName).toBe('detail')
+    expect(element.style.getPropertyValue('view-transition-class')).toBe('vt-slide-in vt-fade-out')
+    expect(element.style.color).toBe('red')
+  })
+
+  it('applies updates right away when the browser has no View Transitions API', () => {
+    // jsdom has no document.startViewTransition
+    const update = vi.fn()
+    startViewTransition(update)
+    expect(update).toHaveBeenCalledOnce()
+
+    startComponentTransition(update)
+    expect(update).toHaveBeenCalledTimes(2)
+  })
+})
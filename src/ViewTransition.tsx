@@ -0,0 +1,39 @@
+/**
+ * UNIVERSAL COMPONENT (Runs on BOTH server and client)
+ *
+ * React's <ViewTransition> when the React build has it, otherwise a stand-in
+ * with the same props (see transitions.ts).
+ *
+ * Server execution (entry-server.tsx):
+ * - Renders its child unchanged apart from the stand-in's inline style
+ *
+ * Client execution (main.tsx):
+ * - React's component: names the child's DOM node and applies the enter /
+ *   exit / share class that matches what happened in a startTransition
+ * - Stand-in: puts `name` and ALL given classes on the child at once. The
+ *   CSS tells the cases apart with :only-child, e.g.
+ *   ::view-transition-new(.slide-in):only-child only matches an entering
+ *   element, since an element that exists on both sides has an "old" too
+ */
+
+import { Children, cloneElement, isValidElement, type CSSProperties, type ReactElement } from "react";
+import { ReactViewTransition, type ViewTransitionProps } from "./transitions";
+
+export function ViewTransition(props: ViewTransitionProps) {
+  if (ReactViewTransition) {
+    return <ReactViewTransition {...props} />;
+  }
+
+  const { children, name, default: defaultClass, enter, exit, share } = props;
+  const child = Children.only(children);
+  if (!isValidElement<{ style?: CSSProperties }>(child)) return child;
+
+  const classes = [defaultClass, enter, exit, share].filter(Boolean).join(" ");
+  return cloneElement(child as ReactElement<{ style?: CSSProperties }>, {
+    style: {
+      ...child.props.style,
+      viewTransitionName: name,
+      viewTransitionClass: classes || undefined,
+    },
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Typed client stubs ("server references") for Server Actions.
+ *
+ * This is the part a RSC bundler would generate for a 'use server' module:
+ * the action's code stays on the server, and the browser gets a function
+ * with the same signature that POSTs its arguments to the server
+ * (src/server/app.ts).
+ *
+ * Client execution:
+ * - Calling the reference sends the (encoded) arguments to
+ *   POST {BASE}__actions/:id and resolves with the action's return value.
+ *   When no such value comes back (network error, 5xx, a proxy's HTML error
+ *   page), it rejects, or resolves with what the reference's onError makes
+ *   of the failure
+ *
+ * Server execution (SSR):
+ * - The reference is never called. React only asks it, through
+ *   $$FORM_ACTION, how to render <form action={...}> as a plain HTML form.
+ *   That form posts back to the current page, so it works before (or
+ *   without) JavaScript; the server runs the action and re-renders the page
+ */
+
+import { withBase } from "../router";
+import { encodeArgs } from "./codec";
+
+// Hidden form fields used by no-JS submissions (see server/actions.ts)
+export const ACTION_ID_PREFIX = "$ACTION_ID_";
+export const ACTION_ARGS_FIELD = "$ACTION_ARGS";
+
+// What React's server renderer expects back from $$FORM_ACTION
+interface CustomFormAction {
+  name: string;
+  action: string;
+  method: "POST";
+  data: FormData;
+}
+
+export type ServerReference<Args extends unknown[], Result> = ((
+  ...args: Args
+) => Promise<Result>) & {
+  $$FORM_ACTION: () => CustomFormAction;
+  $$IS_SIGNATURE_EQUAL: (referenceId: string, boundArgsLength: number) => boolean;
+};
+
+export interface ServerReferenceOptions<Args extends unknown[], Result> {
+  /**
+   * Turns a call that got no result into one (e.g. an error state for
+   * useActionState, whose rejected actions reach the nearest error
+   * boundary). Without it the call rejects.
+   */
+  onError?: (error: Error, ...args: Args) => Result;
+}
+
+export function actionEndpoint(id: string) {
+  return withBase(`/__actions/${id}`);
+}
+
+async function callServer(id: string, args: unknown[]): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(actionEndpoint(id), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: encodeArgs(args),
+    });
+  } catch {
+    throw new Error("The server couldn't be reached");
+  }
+  // Errors from the server are JSON too, but a proxy in front of it may
+  // answer with an HTML page
+  const isJson = response.headers.get("Content-Type")?.includes("application/json");
+  const body = isJson ? await response.json().catch(() => null) : null;
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Server action "${id}" failed (${response.status})`);
+  }
+  if (body === null || typeof body !== "object" || !("result" in body)) {
+    throw new Error(`Server action "${id}" sent an unexpected response`);
+  }
+  return body.result;
+}
+
+export function createServerReference<Args extends unknown[], Result>(
+  id: string,
+  options: ServerReferenceOptions<Args, Result> = {},
+  boundArgs: unknown[] = []
+): ServerReference<Args, Result> {
+  const reference = async (...args: Args) => {
+    const allArgs = [...boundArgs, ...args];
+    try {
+      return (await callServer(id, allArgs)) as Result;
+    } catch (error) {
+      if (!options.onError) throw error;
+      return options.onError(error as Error, ...(allArgs as Args));
+    }
+  };
+
+  return Object.assign(reference, {
+    $$FORM_ACTION(): CustomFormAction {
+      const data = new FormData();
+      data.append(ACTION_ARGS_FIELD, encodeArgs(boundArgs));
+      // An empty action posts back to the page that rendered the form
+      return { name: `${ACTION_ID_PREFIX}${id}`, action: "", method: "POST", data };
+    },
+    // Lets React match a no-JS postback's result to this useActionState
+    $$IS_SIGNATURE_EQUAL(referenceId: string, boundArgsLength: number) {
+      return referenceId === id && boundArgsLength === boundArgs.length;
+    },
+    // useActionState binds the previous state on the server; the bound
+    // reference must still be a server reference
+    bind(_this: unknown, ...args: unknown[]) {
+      return createServerReference(id, options, [...boundArgs, ...args]);
+    },
+  });
+}
+
+/**
+ * Runs `before` (e.g. a useOptimistic update) ahead of a useActionState
+ * dispatch, for use as <form action>.
+ *
+ * A plain wrapper function would cost the form its no-JS fallback: during
+ * SSR, React renders the form as a real POST only if the action carries
+ * $$FORM_ACTION. The dispatch useActionState returns on the server does,
+ * so it's copied over. In the browser there is none, and nothing changes.
+ */
+export function beforeFormAction(
+  formAction: (formData: FormData) => void,
+  before: (formData: FormData) => void
+): (formData: FormData) => void {
+  const action = (formData: FormData) => {
+    before(formData);
+    formAction(formData);
+  };
+  const { $$FORM_ACTION } = formAction as Partial<ServerReference<unknown[], unknown>>;
+  return $$FORM_ACTION ? Object.assign(action, { $$FORM_ACTION }) : action;
+}
@@ -0,0 +1,55 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Wire format for Server Action arguments.
+ *
+ * Arguments travel as JSON. FormData (what <form action={...}> passes to its
+ * action) isn't JSON-serializable, so it's encoded as a tagged list of
+ * entries and rebuilt into a real FormData on the other side.
+ */
+
+interface EncodedFormData {
+  $FormData: [string, string][];
+}
+
+function isEncodedFormData(value: unknown): value is EncodedFormData {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as EncodedFormData).$FormData)
+  );
+}
+
+export function encodeArgs(args: unknown[]): string {
+  return JSON.stringify(args, (_key, value) => {
+    if (value instanceof FormData) {
+      const entries: [string, string][] = [];
+      value.forEach((entry, name) => {
+        // Files can't go through JSON; the demos only submit text fields
+        if (typeof entry === "string") entries.push([name, entry]);
+      });
+      return { $FormData: entries } satisfies EncodedFormData;
+    }
+    return value;
+  });
+}
+
+/** The arguments, or null when the JSON isn't an argument list. */
+export function decodeArgs(json: string): unknown[] | null {
+  let args: unknown;
+  try {
+    args = JSON.parse(json, (_key, value) => {
+      if (isEncodedFormData(value)) {
+        const formData = new FormData();
+        for (const [name, entry] of value.$FormData) {
+          if (typeof name === "string" && typeof entry === "string") formData.append(name, entry);
+        }
+        return formData;
+      }
+      return value;
+    });
+  } catch {
+    return null;
+  }
+  return Array.isArray(args) ? args : null;
+}
@@ -0,0 +1,33 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Server Actions as seen from components. Only types are imported from
+ * src/server/actions.ts, so none of the server code ends up in the client
+ * bundle.
+ */
+
+import type { ServerActions } from "../server/actions";
+import { createServerReference } from "./client";
+
+export { beforeFormAction } from "./client";
+
+export type { Order, OrderField, OrderResult, OrderState } from "../server/actions";
+
+export const submitOrder = createServerReference<
+  Parameters<ServerActions["submitOrder"]>,
+  Awaited<ReturnType<ServerActions["submitOrder"]>>
+>("submitOrder", {
+  // The server never answered with a result: like any failed order, the
+  // optimistic entry goes away and the form shows what was submitted
+  onError: (error, previousState, formData) => ({
+    orders: previousState.orders,
+    result: {
+      status: "error",
+      message: `${error.message}. Your order was not placed.`,
+      values: {
+        product: String(formData.get("product") ?? ""),
+        quantity: String(formData.get("quantity") ?? ""),
+      },
+    },
+  }),
+});
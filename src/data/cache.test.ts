@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createDataCache } from './cache'
+
+describe('createDataCache', () => {
+  it('returns the same promise for the same key', () => {
+    const cache = createDataCache()
+    const fetcher = vi.fn(() => Promise.resolve(1))
+
+    expect(cache.get('a', fetcher)).toBe(cache.get('a', fetcher))
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('fetches again once an entry has expired', () => {
+    let time = 0
+    const cache = createDataCache({ ttl: 1000, now: () => time })
+    const fetcher = vi.fn(() => Promise.resolve(1))
+
+    const first = cache.get('a', fetcher)
+    time = 999
+    expect(cache.get('a', fetcher)).toBe(first)
+    time = 1000
+    expect(cache.get('a', fetcher)).not.toBe(first)
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('invalidates single keys and key prefixes', () => {
+    const cache = createDataCache()
+    const fetcher = vi.fn(() => Promise.resolve(1))
+    cache.get('user:1', fetcher)
+    cache.get('user:2', fetcher)
+    cache.get('posts:1', fetcher)
+
+    cache.invalidate('posts:1')
+    cache.invalidate({ prefix: 'user' })
+    cache.get('user:1', fetcher)
+    cache.get('user:2', fetcher)
+    cache.get('posts:1', fetcher)
+
+    expect(fetcher).toHaveBeenCalledTimes(6)
+  })
+
+  it('keeps failures until they are invalidated', async () => {
+    const cache = createDataCache()
+    const failing = cache.get('a', () => Promise.reject(new Error('offline')))
+    await expect(failing).rejects.toThrow('offline')
+    // use() must see the same rejected promise again on the next render
+    expect(cache.get('a', () => Promise.resolve('back'))).toBe(failing)
+
+    cache.invalidate('a')
+    const retried = cache.get('a', () => Promise.resolve('back'))
+    await expect(retried).resolves.toBe('back')
+  })
+
+  it('dehydrates only resolved entries and seeds them as fulfilled', async () => {
+    const server = createDataCache()
+    await server.get('done', () => Promise.resolve({ id: 1 }))
+    server.get('pending', () => new Promise(() => {}))
+
+    const data = server.dehydrate()
+    expect(data).toEqual({ done: { id: 1 } })
+
+    const client = createDataCache()
+    client.seed(data)
+    const seeded = client.get('done', () => Promise.resolve({ id: 2 }))
+    // use() reads this synchronously instead of suspending
+    expect(seeded).toMatchObject({ status: 'fulfilled', value: { id: 1 } })
+  })
+})
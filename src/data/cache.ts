@@ -0,0 +1,144 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * A keyed promise cache for data read with React 19's use() hook.
+ *
+ * use() needs the SAME promise on every render, otherwise each render would
+ * start a new request and suspend forever. The cache also records each
+ * promise's outcome on the promise itself (status/value), which is how React
+ * reads an already-resolved promise synchronously instead of suspending.
+ *
+ * There is NO module-level instance: every cache is created explicitly and
+ * handed to components through DataCacheContext (see ./context.ts).
+ *
+ * Server execution (entry-server.tsx):
+ * - render() creates a fresh cache for every request, so concurrent requests
+ *   (and different users) never share promises or see each other's data
+ * - Demos fill the cache while rendering
+ * - dehydrate() collects every resolved value for the hydration payload
+ *
+ * Client execution (main.tsx):
+ * - One cache lives for the lifetime of the page
+ * - seed() fills the cache from the hydration payload before hydrateRoot
+ * - Seeded entries are already "fulfilled", so hydration never suspends
+ *   or re-fetches data the server already rendered
+ * - Entries expire after `ttl` and can be invalidated explicitly
+ * - Failed entries are kept until invalidated (see ErrorBoundary's onRetry)
+ */
+
+type TrackedPromise<T> = Promise<T> & {
+  status?: "pending" | "fulfilled" | "rejected";
+  value?: T;
+  reason?: unknown;
+};
+
+export type DehydratedData = Record<string, unknown>;
+
+function track<T>(promise: Promise<T>): TrackedPromise<T> {
+  const tracked = promise as TrackedPromise<T>;
+  tracked.status = "pending";
+  tracked.then(
+    (value) => {
+      tracked.status = "fulfilled";
+      tracked.value = value;
+    },
+    (reason) => {
+      tracked.status = "rejected";
+      tracked.reason = reason;
+    }
+  );
+  return tracked;
+}
+
+function resolved<T>(value: T): TrackedPromise<T> {
+  return Object.assign(Promise.resolve(value), {
+    status: "fulfilled" as const,
+    value,
+  });
+}
+
+export interface DataCacheOptions {
+  /** How long (ms) a resolved entry is served before it's fetched again. */
+  ttl?: number;
+  /** Clock used for expiry, replaceable in tests. */
+  now?: () => number;
+}
+
+interface Entry {
+  promise: TrackedPromise<unknown>;
+  expiresAt: number;
+}
+
+export function createDataCache({
+  ttl = Infinity,
+  now = Date.now,
+}: DataCacheOptions = {}) {
+  const entries = new Map<string, Entry>();
+
+  function isFresh(entry: Entry) {
+    return entry.expiresAt > now();
+  }
+
+  return {
+    /**
+     * Returns the cached promise for `key`, starting `fetcher` on a miss or
+     * when the entry has expired.
+     */
+    get<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+      const existing = entries.get(key);
+      if (existing && isFresh(existing)) {
+        return existing.promise as Promise<T>;
+      }
+
+      // A rejected promise stays cached too: use() has to get the same
+      // promise back on the next render to throw its error to the nearest
+      // error boundary. Retrying means invalidating the key first
+      const promise = track(fetcher());
+      entries.set(key, { promise, expiresAt: now() + ttl });
+      return promise;
+    },
+
+    /**
+     * Drops one entry, or every entry whose key starts with `prefix` + ":"
+     * when called with { prefix }.
+     */
+    invalidate(target: string | { prefix: string }) {
+      if (typeof target === "string") {
+        entries.delete(target);
+        return;
+      }
+      for (const key of entries.keys()) {
+        if (key.startsWith(`${target.prefix}:`)) entries.delete(key);
+      }
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    /**
+     * Pre-fills the cache with already-resolved values.
+     */
+    seed(data: DehydratedData) {
+      for (const [key, value] of Object.entries(data)) {
+        entries.set(key, { promise: resolved(value), expiresAt: now() + ttl });
+      }
+    },
+
+    /**
+     * Snapshot of every resolved, unexpired entry. Pending and failed
+     * entries are left out: the client simply fetches those itself.
+     */
+    dehydrate(): DehydratedData {
+      const data: DehydratedData = {};
+      for (const [key, entry] of entries) {
+        if (entry.promise.status === "fulfilled" && isFresh(entry)) {
+          data[key] = entry.promise.value;
+        }
+      }
+      return data;
+    },
+  };
+}
+
+export type DataCache = ReturnType<typeof createDataCache>;
@@ -0,0 +1,43 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Makes the current DataCache and DataSource available to components,
+ * and the Timeline that records their requests (optional, see ./timeline.ts).
+ *
+ * - Server: entry-server.tsx provides a new cache per render() call, and
+ *   the source src/server/app.ts (or prerender.ts) renders with
+ * - Client: main.tsx provides the page's single cache, and the REST API
+ *   (or the fixtures, in the static build) as the source
+ */
+
+import { createContext, useContext } from "react";
+import type { DataCache } from "./cache";
+import type { DataSource } from "./source";
+import type { Timeline } from "./timeline";
+
+export const DataCacheContext = createContext<DataCache | null>(null);
+
+export function useDataCache(): DataCache {
+  const cache = useContext(DataCacheContext);
+  if (!cache) {
+    throw new Error("useDataCache() must be used inside <DataCacheContext>");
+  }
+  return cache;
+}
+
+export const DataSourceContext = createContext<DataSource | null>(null);
+
+export function useDataSource(): DataSource {
+  const source = useContext(DataSourceContext);
+  if (!source) {
+    throw new Error("useDataSource() must be used inside <DataSourceContext>");
+  }
+  return source;
+}
+
+export const TimelineContext = createContext<Timeline | null>(null);
+
+// Optional: without a timeline, nothing is recorded
+export function useTimeline(): Timeline | null {
+  return useContext(TimelineContext);
+}
@@ -0,0 +1,52 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * A DataSource over in-memory fixtures. Answers immediately: wrap it with
+ * withFaults() for latency. Tests pass their own fixtures.
+ */
+
+import fixtures from "./fixtures.json";
+import {
+  DEFAULT_PAGE_SIZE,
+  DataSourceError,
+  type DataSource,
+  type Post,
+  type User,
+} from "./source";
+
+export interface Fixtures {
+  users: User[];
+  posts: Post[];
+}
+
+export const defaultFixtures: Fixtures = fixtures;
+
+export function createFixtureSource(data: Fixtures = defaultFixtures): DataSource {
+  return {
+    async getUsers() {
+      return data.users;
+    },
+    async getUser(id) {
+      const user = data.users.find((u) => u.id === id);
+      if (!user) throw new DataSourceError(`User ${id} not found.`, 404);
+      return user;
+    },
+    async getPosts(userId, { page = 1, pageSize = DEFAULT_PAGE_SIZE } = {}) {
+      if (!data.users.some((u) => u.id === userId)) {
+        throw new DataSourceError(`User ${userId} not found.`, 404);
+      }
+      // Newest (highest id) first
+      const posts = data.posts
+        .filter((post) => post.userId === userId)
+        .sort((a, b) => b.id - a.id);
+      const start = (page - 1) * pageSize;
+      return {
+        items: posts.slice(start, start + pageSize),
+        page,
+        pageSize,
+        total: posts.length,
+        hasMore: start + pageSize < posts.length,
+      };
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Transfers the server render's state to the client.
+ *
+ * - Server: serializeHydrationData() turns the dehydrated cache (plus the
+ *   result of a no-JS Server Action submission, if any, and the render's
+ *   timeline events) into an inert
+ *   <script type="application/json"> tag that server/app.ts adds to the HTML
+ *   (with the response's CSP nonce, see server/security.ts)
+ * - Client: readHydrationData() parses that tag in main.tsx, before hydrateRoot
+ */
+
+import type { ReactFormState } from "react-dom/client";
+import type { DehydratedData } from "./cache";
+import type { TimelineEvent } from "./timeline";
+
+export const HYDRATION_DATA_ID = "__APP_DATA__";
+
+export interface HydrationPayload {
+  data: DehydratedData;
+  // hydrateRoot needs the same formState the server rendered with,
+  // otherwise useActionState would hydrate with its initial state
+  formState: ReactFormState | null;
+  // When the server's requests started, settled and revealed (for the
+  // Suspense demo's timeline)
+  timeline: TimelineEvent[];
+}
+
+export function serializeHydrationData(payload: HydrationPayload, nonce?: string): string {
+  // "<" is escaped so a value containing "</script>" can't end the tag early
+  const json = JSON.stringify(payload).replace(/</g, "\\u003c");
+  const nonceAttribute = nonce ? ` nonce="${nonce}"` : "";
+  return `<script type="application/json" id="${HYDRATION_DATA_ID}"${nonceAttribute}>${json}</script>`;
+}
+
+export function readHydrationData(): HydrationPayload {
+  const empty: HydrationPayload = { data: {}, formState: null, timeline: [] };
+  const element = document.getElementById(HYDRATION_DATA_ID);
+  if (!element?.textContent) return empty;
+
+  try {
+    return { ...empty, ...(JSON.parse(element.textContent) as HydrationPayload) };
+  } catch {
+    // A broken payload only costs us a re-fetch, never the whole app
+    return empty;
+  }
+}
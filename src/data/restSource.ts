@@ -0,0 +1,50 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * A DataSource that reads the REST API the server serves under {BASE}api
+ * (see src/server/api.ts). Error responses become DataSourceErrors with
+ * the same status, so components can't tell it from a local source.
+ *
+ * Client execution (main.tsx):
+ * - The source the browser uses whenever a server is running
+ *
+ * Server execution: not used. SSR reads the server's source directly
+ * instead of making HTTP requests to itself.
+ */
+
+import { withBase } from "../router";
+import { DEFAULT_PAGE_SIZE, DataSourceError, type DataSource } from "./source";
+
+export interface RestSourceOptions {
+  /** API root, "{BASE}api" by default. */
+  baseUrl?: string;
+  /** Replaceable in tests. */
+  fetch?: typeof fetch;
+}
+
+export function createRestSource({
+  baseUrl = withBase("/api"),
+  fetch = globalThis.fetch,
+}: RestSourceOptions = {}): DataSource {
+  async function get<T>(path: string): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, { headers: { Accept: "application/json" } });
+    } catch {
+      // Offline, DNS, CORS...: there's no status to pass on
+      throw new DataSourceError(`Network error while fetching ${path}.`, 503);
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new DataSourceError(body?.error ?? `Request for ${path} failed.`, response.status);
+    }
+    return body as T;
+  }
+
+  return {
+    getUsers: () => get("/users"),
+    getUser: (id) => get(`/users/${id}`),
+    getPosts: (userId, { page = 1, pageSize = DEFAULT_PAGE_SIZE } = {}) =>
+      get(`/users/${userId}/posts?page=${page}&pageSize=${pageSize}`),
+  };
+}
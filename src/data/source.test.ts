@@ -0,0 +1,82 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { createFixtureSource } from './fixtureSource'
+import { createRestSource } from './restSource'
+import { DataSourceError, withFaults } from './source'
+
+const fixtures = {
+  users: [{ id: 1, name: 'Ada', email: 'ada@example.com' }],
+  posts: [
+    { id: 1, userId: 1, title: 'First' },
+    { id: 2, userId: 2, title: 'Not Ada' },
+  ],
+}
+
+describe('data sources', () => {
+  afterEach(() => vi.useRealTimers())
+
+  it('reads fixtures and rejects unknown users with a 404', async () => {
+    const source = createFixtureSource(fixtures)
+
+    expect(await source.getUser(1)).toEqual(fixtures.users[0])
+    expect(await source.getPosts(1)).toEqual({
+      items: [fixtures.posts[0]],
+      page: 1,
+      pageSize: 5,
+      total: 1,
+      hasMore: false,
+    })
+    await expect(source.getUser(2)).rejects.toMatchObject({ name: 'DataSourceError', status: 404 })
+  })
+
+  it('pages through posts, newest first', async () => {
+    const posts = Array.from({ length: 7 }, (_, i) => ({ id: i + 1, userId: 1, title: `Post ${i + 1}` }))
+    const source = createFixtureSource({ users: fixtures.users, posts })
+
+    const first = await source.getPosts(1, { pageSize: 3 })
+    expect(first.items.map((post) => post.id)).toEqual([7, 6, 5])
+    expect(first).toMatchObject({ total: 7, hasMore: true })
+    const last = await source.getPosts(1, { page: 3, pageSize: 3 })
+    expect(last.items.map((post) => post.id)).toEqual([1])
+    expect(last.hasMore).toBe(false)
+  })
+
+  it('injects latency and failures', async () => {
+    vi.useFakeTimers()
+    const source = withFaults(createFixtureSource(fixtures), {
+      latency: { getUser: 1000 },
+      jitter: 100,
+      errorRate: 0.5,
+      // First call: jitter 50ms, succeeds. Second call: fails
+      random: vi.fn().mockReturnValueOnce(0.5).mockReturnValueOnce(0.9).mockReturnValue(0.1),
+    })
+
+    const user = source.getUser(1)
+    let settled = false
+    user.then(() => (settled = true))
+    await vi.advanceTimersByTimeAsync(1049)
+    expect(settled).toBe(false)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(await user).toEqual(fixtures.users[0])
+
+    const failing = expect(source.getPosts(1)).rejects.toMatchObject({ status: 503 })
+    await vi.runAllTimersAsync()
+    await failing
+  })
+
+  it('turns REST responses into data and DataSourceErrors', async () => {
+    const fetch = vi.fn(async (url: string) =>
+      url.endsWith('/users/1')
+        ? Response.json(fixtures.users[0])
+        : Response.json({ error: 'User 2 not found.' }, { status: 404 })
+    )
+    const source = createRestSource({ baseUrl: '/base/api', fetch: fetch as typeof globalThis.fetch })
+
+    expect(await source.getUser(1)).toEqual(fixtures.users[0])
+    expect(fetch).toHaveBeenCalledWith('/base/api/users/1', expect.anything())
+
+    const error = await source.getPosts(2, { page: 2 }).catch((e) => e)
+    expect(fetch).toHaveBeenLastCalledWith('/base/api/users/2/posts?page=2&pageSize=5', expect.anything())
+    expect(error).toBeInstanceOf(DataSourceError)
+    expect(error).toMatchObject({ message: 'User 2 not found.', status: 404 })
+  })
+})
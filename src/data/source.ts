@@ -0,0 +1,118 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * The data the demos read, behind one typed interface. Implementations:
+ *
+ * - createFixtureSource() (./fixtureSource.ts): in-memory fixtures. Used
+ *   for SSR of the static build, where there's no API, and by tests
+ * - createRestSource() (./restSource.ts): the REST API server/app.ts serves
+ *   under {BASE}api. Used by the browser when a server is running
+ * - createJsonFileSource() (src/server/jsonSource.ts): reads a JSON file
+ *   on disk. Behind that REST API, and used for SSR by server.tsx
+ *
+ * Components get the source from DataSourceContext (see ./context.ts)
+ * and read it through the DataCache, so SSR data is still handed over to
+ * hydration.
+ *
+ * withFaults() adds latency and random failures to any source: the
+ * Suspense demo needs visible loading states, and error handling needs
+ * errors to handle.
+ */
+
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface Post {
+  id: number;
+  userId: number;
+  title: string;
+}
+
+export interface PageRequest {
+  /** 1-based. */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export const DEFAULT_PAGE_SIZE = 5;
+export const MAX_PAGE_SIZE = 50;
+
+export interface DataSource {
+  getUsers(): Promise<User[]>;
+  /** Rejects with a 404 DataSourceError for unknown ids. */
+  getUser(id: number): Promise<User>;
+  /** One page of the user's posts, newest first. */
+  getPosts(userId: number, page?: PageRequest): Promise<Page<Post>>;
+}
+
+/**
+ * A failed read. `status` follows HTTP, so the REST API can pass it on and
+ * the REST client can turn a response back into the same error.
+ */
+export class DataSourceError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "DataSourceError";
+    this.status = status;
+  }
+}
+
+type Method = keyof DataSource;
+
+export interface FaultOptions {
+  /** Delay in ms before every call, or per method. */
+  latency?: number | Partial<Record<Method, number>>;
+  /** Up to this many ms are added to the latency at random. */
+  jitter?: number;
+  /** Share of calls (0-1) that fail with a 503, after the delay. */
+  errorRate?: number;
+  /** Replaceable in tests, to make jitter and failures deterministic. */
+  random?: () => number;
+}
+
+// What the Suspense demo was built around: the user arrives before the
+// posts, so the two boundaries visibly resolve one after the other
+export const demoLatency: FaultOptions["latency"] = {
+  getUsers: 300,
+  getUser: 1500,
+  getPosts: 2000,
+};
+
+export function withFaults(
+  source: DataSource,
+  { latency = 0, jitter = 0, errorRate = 0, random = Math.random }: FaultOptions
+): DataSource {
+  function wrap<M extends Method>(method: M): DataSource[M] {
+    const call = source[method] as (...args: unknown[]) => Promise<unknown>;
+    return (async (...args: unknown[]) => {
+      const delay =
+        (typeof latency === "number" ? latency : (latency[method] ?? 0)) +
+        (jitter > 0 ? Math.round(random() * jitter) : 0);
+      if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+      if (errorRate > 0 && random() < errorRate) {
+        const params = args.map((arg) => JSON.stringify(arg)).join(", ");
+        throw new DataSourceError(`Network error in ${method}(${params}).`, 503);
+      }
+      return call.apply(source, args);
+    }) as DataSource[M];
+  }
+
+  return {
+    getUsers: wrap("getUsers"),
+    getUser: wrap("getUser"),
+    getPosts: wrap("getPosts"),
+  };
+}
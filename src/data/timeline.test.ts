@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { createTimeline } from './timeline'
+
+function clock(start = 100) {
+  let time = start
+  return { now: () => time, advance: (ms: number) => (time += ms) }
+}
+
+describe('timeline', () => {
+  it('records requests from when they start to when they settle', async () => {
+    const { now, advance } = clock()
+    const timeline = createTimeline({ side: 'server', now })
+
+    let resolve = () => {}
+    const request = timeline.track('user 1', new Promise<void>((r) => (resolve = r)))
+    const failing = timeline.track('posts 1 p1', Promise.reject(new Error('nope')))
+    advance(40)
+    resolve()
+    await request
+    await failing.catch(() => {})
+    timeline.record('user 1', 'reveal')
+
+    // The server counts from when the timeline was created
+    expect(timeline.getEvents()).toEqual([
+      { label: 'user 1', kind: 'start', side: 'server', at: 0 },
+      { label: 'posts 1 p1', kind: 'start', side: 'server', at: 0 },
+      { label: 'posts 1 p1', kind: 'reject', side: 'server', at: 40 },
+      { label: 'user 1', kind: 'resolve', side: 'server', at: 40 },
+      { label: 'user 1', kind: 'reveal', side: 'server', at: 40 },
+    ])
+  })
+
+  it('seeds, resets and notifies once per batch', async () => {
+    const { now, advance } = clock()
+    const timeline = createTimeline({ side: 'client', now })
+    let notified = 0
+    timeline.subscribe(() => notified++)
+
+    timeline.record('user 1', 'start')
+    timeline.seed([{ label: 'user 1', kind: 'start', side: 'server', at: 3 }])
+    expect(timeline.getEvents().map(({ side, at }) => [side, at])).toEqual([
+      ['server', 3],
+      ['client', 100],
+    ])
+    expect(notified).toBe(0)
+    await Promise.resolve()
+    expect(notified).toBe(1)
+
+    advance(50)
+    timeline.reset()
+    timeline.record('user 2', 'start')
+    expect(timeline.getEvents()).toEqual([{ label: 'user 2', kind: 'start', side: 'client', at: 0 }])
+  })
+})
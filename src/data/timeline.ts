@@ -0,0 +1,105 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Records when requests start and settle, and when the Suspense
+ * boundaries showing their data reveal, for the Suspense demo's timeline.
+ *
+ * Server execution (entry-server.tsx):
+ * - One timeline per render() call; times are ms since the render began
+ * - A boundary "reveals" when its content renders: from then on it's part
+ *   of the stream
+ * - The events travel to the client in the hydration payload
+ *
+ * Client execution (main.tsx):
+ * - One timeline per page, seeded with the server's events
+ * - Times are ms since the page started loading (or since reset())
+ * - A boundary reveals when its content is committed to the DOM
+ *
+ * Components read it through TimelineContext (see ./context.ts). Without
+ * one, nothing is recorded.
+ */
+
+export type TimelineSide = "server" | "client";
+
+export type TimelineEventKind = "start" | "resolve" | "reject" | "reveal";
+
+export interface TimelineEvent {
+  /** What the event is about, e.g. "user 1". Fetch and reveal share it. */
+  label: string;
+  kind: TimelineEventKind;
+  side: TimelineSide;
+  /** ms since the side's origin. */
+  at: number;
+}
+
+export interface TimelineOptions {
+  side: TimelineSide;
+  /** Replaceable in tests. */
+  now?: () => number;
+}
+
+export function createTimeline({ side, now = () => performance.now() }: TimelineOptions) {
+  // The client's origin is the start of the page load (performance.now() is
+  // relative to it); the server's is the start of the render
+  let origin = side === "server" ? now() : 0;
+  let events: TimelineEvent[] = [];
+  const listeners = new Set<() => void>();
+  let scheduled = false;
+
+  // Events are often recorded while React renders (a cache miss starts a
+  // request), where subscribers must not be updated. They're notified
+  // together once the render is over
+  function notify() {
+    if (scheduled) return;
+    scheduled = true;
+    queueMicrotask(() => {
+      scheduled = false;
+      listeners.forEach((listener) => listener());
+    });
+  }
+
+  function record(label: string, kind: TimelineEventKind) {
+    events = [...events, { label, kind, side, at: Math.round(now() - origin) }];
+    notify();
+  }
+
+  return {
+    side,
+
+    record,
+
+    /** Records `start` now, and `resolve`/`reject` when the promise settles. */
+    track<T>(label: string, promise: Promise<T>): Promise<T> {
+      record(label, "start");
+      promise.then(
+        () => record(label, "resolve"),
+        () => record(label, "reject")
+      );
+      return promise;
+    },
+
+    /** Adds events recorded elsewhere (the server's, during hydration). */
+    seed(seeded: TimelineEvent[]) {
+      events = [...seeded, ...events];
+      notify();
+    },
+
+    /** Drops every event and starts counting from now. */
+    reset() {
+      origin = now();
+      events = [];
+      notify();
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getEvents: () => events,
+  };
+}
+
+export type Timeline = ReturnType<typeof createTimeline>;
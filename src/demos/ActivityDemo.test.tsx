@@ -0,0 +1,84 @@
+import { act, cleanup, fireEvent, render, screen, within } from '@testing-library/react'
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { ActivityDemo } from './ActivityDemo'
+
+// jsdom has no media playback: play() and pause() only flip `paused` and
+// fire the events a browser would
+const playing = new WeakSet<HTMLMediaElement>()
+
+function mockPlayback() {
+  vi.spyOn(HTMLMediaElement.prototype, 'paused', 'get').mockImplementation(function (this: HTMLMediaElement) {
+    return !playing.has(this)
+  })
+  const play = vi.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(async function (this: HTMLMediaElement) {
+    playing.add(this)
+    this.dispatchEvent(new Event('play'))
+  })
+  const pause = vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(function (this: HTMLMediaElement) {
+    if (playing.delete(this)) this.dispatchEvent(new Event('pause'))
+  })
+  return { play, pause }
+}
+
+// The video tab's log entries, oldest first
+function videoLog() {
+  const log = screen.getByRole('heading', { name: 'Effect lifecycle' }).closest('.lifecycle-log') as HTMLElement
+  return within(log)
+    .queryAllByRole('listitem')
+    .filter((entry) => entry.textContent?.includes('Video Player'))
+    .map((entry) => entry.querySelector('.lifecycle-event')?.textContent)
+    .reverse()
+}
+
+async function click(name: string) {
+  await act(async () => {
+    fireEvent.click(screen.getByRole('button', { name }))
+  })
+}
+
+describe('ActivityDemo', () => {
+  let playback: ReturnType<typeof mockPlayback>
+
+  beforeEach(() => {
+    playback = mockPlayback()
+  })
+
+  afterEach(() => {
+    // Unmounting pauses the video, so it goes before the mocks do
+    cleanup()
+    vi.restoreAllMocks()
+    localStorage.clear()
+  })
+
+  it('pauses the hidden video and resumes it when the tab is shown again', async () => {
+    render(<ActivityDemo />)
+    const video = document.querySelector('video') as HTMLVideoElement
+    expect(videoLog()).toEqual(['mount'])
+
+    await click('▶ Play')
+    expect(video.paused).toBe(false)
+    expect(screen.getByText(/State: Playing/)).toBeInTheDocument()
+
+    await click('Comment Draft')
+    expect(playback.pause).toHaveBeenCalledOnce()
+    expect(video.paused).toBe(true)
+    // Still in the DOM, just hidden
+    expect(video).toBeInTheDocument()
+    expect(videoLog()).toEqual(['mount', 'cleanup'])
+
+    await click('Video Player')
+    expect(playback.play).toHaveBeenCalledTimes(2)
+    expect(video.paused).toBe(false)
+    expect(videoLog()).toEqual(['mount', 'cleanup', 're-mount'])
+  })
+
+  it('keeps a paused video paused when the tab is shown again', async () => {
+    render(<ActivityDemo />)
+
+    await click('Other Tab')
+    await click('Video Player')
+
+    expect(playback.play).not.toHaveBeenCalled()
+    expect(videoLog()).toEqual(['mount', 'cleanup', 're-mount'])
+  })
+})
@@ -4,71 +4,180 @@
  * Server execution (entry-server.tsx):
  * - useState/useEffect initialize with default values
  * - useEffect cleanup/effects are NOT executed on server
- * - Returns HTML with initial state
+ * - Returns HTML with initial state (the <video> element included)
  *
  * Client execution (main.tsx):
  * - Hydrates the server-rendered content
  * - useEffect runs after hydration
- * - Interactive state management and timers work
+ * - Interactive state management and media playback work
+ *
+ * What <Activity mode="hidden"> does to a tab, as the lifecycle log shows:
+ * - Effects are cleaned up (the video player pauses in its cleanup)
+ * - State and DOM are kept, so the playback position and drafts survive
+ * - Effects run again when the tab is revealed (and the video resumes)
  */
 
-import { useState, useEffect, Activity } from "react";
+import { useState, useEffect, useRef, Activity } from "react";
+import sampleClip from "../assets/sample-clip.mp4";
+import { usePersistentState } from "../storage";
+
+type Tab = "video" | "comment" | "other";
+
+type LifecycleEvent = "mount" | "cleanup" | "re-mount";
+
+interface LifecycleEntry {
+  id: number;
+  time: string;
+  tab: Tab;
+  event: LifecycleEvent;
+  detail?: string;
+}
+
+type LogLifecycle = (tab: Tab, event: LifecycleEvent, detail?: string) => void;
+
+// Reports when this component's effects run and are cleaned up.
+// `describe` adds the state at that moment, to show it survives hiding
+function useLifecycleLog(tab: Tab, log: LogLifecycle, describe?: () => string) {
+  // Refs survive while hidden, just like state
+  const runs = useRef(0);
+  const latest = useRef({ log, describe });
+  useEffect(() => {
+    latest.current = { log, describe };
+  });
+
+  useEffect(() => {
+    const { log, describe } = latest.current;
+    log(tab, runs.current === 0 ? "mount" : "re-mount", describe?.());
+    runs.current++;
+    return () => {
+      const { log, describe } = latest.current;
+      log(tab, "cleanup", describe?.());
+    };
+  }, [tab]);
+}
+
+function formatTime(seconds: number) {
+  return `${seconds.toFixed(1)}s`;
+}
 
-// Component with state and effects
-// - Server: Only initial state, no effects run
-// - Client: Full lifecycle with effects and timers
-function VideoPlayer({ id }: { id: string }) {
+// A real <video> element
+// - Server: rendered paused at 0s; media events only fire in the browser
+// - Client: React state mirrors the element through its media events
+function VideoPlayer({ log }: { log: LogLifecycle }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
   const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
 
-  // Simulate video playback with a timer
+  useLifecycleLog("video", log, () =>
+    `${isPlaying ? "playing" : "paused"} at ${formatTime(videoRef.current?.currentTime ?? 0)}`
+  );
+
+  // React sets `muted` as a property, which the server can only render as
+  // the attribute (the *default* muted state), so hydration can't compare
+  // them. Set it on the element instead
   useEffect(() => {
-    if (!isPlaying) return;
+    if (videoRef.current) videoRef.current.muted = true;
+  }, []);
 
-    const interval = setInterval(() => {
-      setCurrentTime((t) => {
-        if (t >= 100) {
-          setIsPlaying(false);
-          return 0;
-        }
-        return t + 1;
-      });
-    }, 1000);
+  // Hidden by <Activity> means cleaned up: pause, so a tab nobody can see
+  // doesn't keep playing. The element (and its position) stays in the DOM,
+  // and playback picks up again when the tab is revealed
+  const resumeOnReveal = useRef(false);
+  useEffect(() => {
+    const video = videoRef.current;
+    if (resumeOnReveal.current) {
+      video?.play().catch(() => setIsPlaying(false));
+    }
+    return () => {
+      resumeOnReveal.current = video ? !video.paused : false;
+      video?.pause();
+    };
+  }, []);
 
-    return () => clearInterval(interval);
-  }, [isPlaying]);
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch(() => setIsPlaying(false));
+    } else {
+      video.pause();
+    }
+  };
 
   return (
     <div className="video-player">
-      <div className="video-placeholder">
-        <span>Video {id}</span>
-        {isPlaying && <span className="playing-indicator">Playing...</span>}
-      </div>
+      <video
+        ref={videoRef}
+        className="video-frame"
+        src={sampleClip}
+        preload="metadata"
+        playsInline
+        onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+      />
       <div className="video-controls">
-        <button onClick={() => setIsPlaying(!isPlaying)}>
+        <button onClick={togglePlayback}>
           {isPlaying ? "⏸ Pause" : "▶ Play"}
         </button>
         <input
           type="range"
           min="0"
-          max="100"
+          max={duration || 0}
+          step="0.1"
           value={currentTime}
-          onChange={(e) => setCurrentTime(Number(e.target.value))}
+          onChange={(e) => {
+            if (videoRef.current) {
+              videoRef.current.currentTime = Number(e.target.value);
+            }
+          }}
           className="time-slider"
+          aria-label="Playback position"
         />
-        <span>{currentTime}s</span>
+        <span>
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
       </div>
       <p className="state-indicator">
-        State: {isPlaying ? "Playing" : "Paused"} at {currentTime}s
+        State: {isPlaying ? "Playing" : "Paused"} at {formatTime(currentTime)}
       </p>
     </div>
   );
 }
 
 // A component with form state
-function CommentDraft() {
-  const [text, setText] = useState("");
-  const [name, setName] = useState("");
+interface Draft {
+  name: string;
+  text: string;
+}
+
+const emptyDraft: Draft = { name: "", text: "" };
+
+function isDraft(data: unknown): data is Draft {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as Draft).name === "string" &&
+    typeof (data as Draft).text === "string"
+  );
+}
+
+// Activity keeps the draft while the tab is hidden; usePersistentState
+// keeps it across reloads, and syncs it with other open tabs
+// - Server: renders the empty draft (there is no localStorage)
+// - Client: hydrates the empty draft, then restores the saved one
+function CommentDraft({ log }: { log: LogLifecycle }) {
+  const [{ name, text }, setDraft, discardDraft] = usePersistentState({
+    key: "react-19-demo:comment-draft",
+    version: 1,
+    defaultValue: emptyDraft,
+    validate: isDraft,
+  });
+
+  useLifecycleLog("comment", log, () => `draft has ${text.length} characters`);
 
   return (
     <div className="comment-draft">
@@ -77,27 +186,112 @@ function CommentDraft() {
         type="text"
         placeholder="Your name"
         value={name}
-        onChange={(e) => setName(e.target.value)}
+        onChange={(e) => {
+          const name = e.target.value;
+          setDraft((draft) => ({ ...draft, name }));
+        }}
         className="comment-input"
       />
       <textarea
         placeholder="Write a comment..."
         value={text}
-        onChange={(e) => setText(e.target.value)}
+        onChange={(e) => {
+          const text = e.target.value;
+          setDraft((draft) => ({ ...draft, text }));
+        }}
         className="comment-textarea"
       />
       <p className="state-indicator">
         Draft: {name ? `${name}: ` : ""}
         {text || "(empty)"}
       </p>
+      <p className="info-text">
+        Saved in localStorage: reload the page, or open it in another tab.{" "}
+        <button onClick={discardDraft} className="back-button">
+          Discard draft
+        </button>
+      </p>
     </div>
   );
 }
 
-type Tab = "video" | "comment" | "other";
+// No state at all, for contrast: its effects still come and go
+function OtherContent({ log }: { log: LogLifecycle }) {
+  useLifecycleLog("other", log);
+
+  return (
+    <>
+      <h4>Other Content</h4>
+      <p>This tab has no stateful content to demonstrate the contrast.</p>
+      <p>
+        Try playing the video or typing in the comment draft, then switching
+        tabs!
+      </p>
+    </>
+  );
+}
+
+const tabLabels: Record<Tab, string> = {
+  video: "Video Player",
+  comment: "Comment Draft",
+  other: "Other Tab",
+};
+
+const MAX_LOG_ENTRIES = 30;
+
+function LifecycleLog({
+  entries,
+  onClear,
+}: {
+  entries: LifecycleEntry[];
+  onClear: () => void;
+}) {
+  return (
+    <div className="lifecycle-log">
+      <div className="lifecycle-log-header">
+        <h4>Effect lifecycle</h4>
+        <button onClick={onClear} className="back-button">
+          Clear
+        </button>
+      </div>
+      {entries.length === 0 ? (
+        <p className="info-text">Effects run after hydration; switch tabs to see more.</p>
+      ) : (
+        <ol>
+          {entries.map((entry) => (
+            <li key={entry.id}>
+              <span className="lifecycle-time">{entry.time}</span>
+              <span className={`lifecycle-event ${entry.event}`}>{entry.event}</span>
+              <span>{tabLabels[entry.tab]}</span>
+              {entry.detail && <span className="lifecycle-detail">{entry.detail}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+      <p className="info-text">
+        In development, StrictMode runs each effect twice on mount, so every
+        tab starts with mount → cleanup → re-mount.
+      </p>
+    </div>
+  );
+}
 
 export function ActivityDemo() {
   const [activeTab, setActiveTab] = useState<Tab>("video");
+  // Client only: effects never run on the server
+  const [logEntries, setLogEntries] = useState<LifecycleEntry[]>([]);
+  const nextLogId = useRef(0);
+
+  const log: LogLifecycle = (tab, event, detail) => {
+    const entry: LifecycleEntry = {
+      id: nextLogId.current++,
+      time: new Date().toLocaleTimeString(),
+      tab,
+      event,
+      detail,
+    };
+    setLogEntries((entries) => [entry, ...entries].slice(0, MAX_LOG_ENTRIES));
+  };
 
   return (
     <div className="demo-section">
@@ -133,32 +327,29 @@ export function ActivityDemo() {
         {/* Activity keeps components mounted but hidden, preserving their state */}
         <Activity mode={activeTab === "video" ? "visible" : "hidden"}>
           <div className="tab-panel">
-            <VideoPlayer id="main" />
+            <VideoPlayer log={log} />
           </div>
         </Activity>
 
         <Activity mode={activeTab === "comment" ? "visible" : "hidden"}>
           <div className="tab-panel">
-            <CommentDraft />
+            <CommentDraft log={log} />
           </div>
         </Activity>
 
         <Activity mode={activeTab === "other" ? "visible" : "hidden"}>
           <div className="tab-panel">
-            <h4>Other Content</h4>
-            <p>This tab has no stateful content to demonstrate the contrast.</p>
-            <p>
-              Try editing the video player time or typing in the comment draft,
-              then switching tabs!
-            </p>
+            <OtherContent log={log} />
           </div>
         </Activity>
       </div>
 
+      <LifecycleLog entries={logEntries} onClear={() => setLogEntries([])} />
+
       <div className="demo-note">
-        <strong>Note:</strong> Activity is still experimental
-        (unstable_Activity). It's useful for tab interfaces, navigation drawers,
-        and any UI where you want to preserve state while hiding content.
+        <strong>Note:</strong> Activity is stable as of React 19.2. It's
+        useful for tab interfaces, navigation drawers, and any UI where you
+        want to preserve state while hiding content.
       </div>
     </div>
   );
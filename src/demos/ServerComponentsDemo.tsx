@@ -1,222 +1,192 @@
 /**
- * UNIVERSAL COMPONENT (Currently runs on BOTH server and client)
+ * UNIVERSAL COMPONENT (Runs on BOTH server and client)
  *
- * CURRENT REALITY (Traditional SSR):
- * - This entire file is bundled and sent to the browser
- * - All code executes on BOTH server (during SSR) and client (during hydration)
- * - All JavaScript is included in the client bundle
+ * This demo is a Client Component hosting REAL React Server Components:
  *
- * WHAT IT DEMONSTRATES (React Server Components - requires Next.js App Router):
- * In a true RSC environment, this code would be split:
- * - Server Components: Run ONLY on server, zero client JS
- * - Client Components: Marked with 'use client', sent to browser
- * - Server Actions: Marked with 'use server', secure server-only functions
+ * - Server Components (src/rsc/ServerProductList.tsx): run ONLY on the
+ *   server, in a separate RSC bundle. The browser fetches their rendered
+ *   output as an RSC payload from GET {BASE}rsc; their code and the
+ *   server-only data they read are never sent to the client
+ * - Client Components (src/rsc/client/): marked with 'use client', rendered
+ *   inside the Server Component output by the browser
+ * - Server Actions (src/server/actions.ts): run on the server, called from
+ *   the order form below (with or without JavaScript)
  *
- * Why can't we use 'use server' here?
- * - RSC requires special bundler support (Next.js, experimental Vite plugins)
- * - Current Vite RSC plugins are too unstable for this demo
- * - This demonstrates the concepts - use Next.js App Router for production RSC
+ * This file itself is traditional SSR: it runs on the server (initial HTML)
+ * and again on the client (hydration), and its code is in the client bundle.
  *
  * Key difference:
  * - Traditional SSR: Code runs twice (server then client), all code in bundle
  * - RSC: Server components run once (server), no client JS for those components
  */
 
-import { Suspense, use, useState } from "react";
+import {
+  Suspense,
+  use,
+  useActionState,
+  useOptimistic,
+  useState,
+  type ReactNode,
+} from "react";
+import { useFormStatus } from "react-dom";
+import {
+  beforeFormAction,
+  submitOrder,
+  type Order,
+  type OrderField,
+  type OrderState,
+} from "../actions";
+import { ErrorBoundary } from "../ErrorBoundary";
+import { fetchRscPayload } from "../rsc/client";
+import { ClientCounter } from "../rsc/client/ClientCounter";
 
-// Simulated database/API calls
-// CURRENT: Runs on both server (SSR) and client (after hydration)
-// TRUE RSC: Would run ONLY on server, never in browser
-async function fetchServerData(): Promise<{
-  products: Array<{
-    id: number;
-    name: string;
-    price: number;
-    serverOnly: string;
-  }>;
-}> {
-  // Simulate server-side database query
-  await new Promise((resolve) => setTimeout(resolve, 800));
-
-  return {
-    products: [
-      {
-        id: 1,
-        name: "Laptop",
-        price: 999,
-        serverOnly:
-          "Secret: Database connection string - never sent to client!",
-      },
-      {
-        id: 2,
-        name: "Mouse",
-        price: 29,
-        serverOnly: "Secret: API key - stays on server!",
-      },
-      {
-        id: 3,
-        name: "Keyboard",
-        price: 79,
-        serverOnly: "Secret: Internal server data",
-      },
-    ],
-  };
+// Stands in for fetchRscPayload() when "Simulate network error" is on
+function failingRscPayload(): Promise<ReactNode> {
+  return new Promise((_, reject) => {
+    setTimeout(() => {
+      reject(new Error("Network error while fetching the RSC payload."));
+    }, 800);
+  });
 }
 
-// Cache for server data (in true RSC, this would be automatic)
-let serverDataCache: Promise<{
-  products: Array<{
-    id: number;
-    name: string;
-    price: number;
-    serverOnly: string;
-  }>;
-}> | null = null;
-
-function getServerData() {
-  if (!serverDataCache) {
-    serverDataCache = fetchServerData();
-  }
-  return serverDataCache;
+// Renders the Server Component output once the RSC payload has arrived
+function RscPayload({ payload }: { payload: Promise<ReactNode> }) {
+  return use(payload);
 }
 
 /**
- * ServerProductList - Simulates a Server Component
- *
- * CURRENT (Traditional SSR):
- * - Runs on server during SSR (entry-server.tsx)
- * - Runs again on client during hydration (main.tsx)
- * - All code is in the client JavaScript bundle
+ * ServerActionDemo - A real Server Action
  *
- * TRUE RSC (would require Next.js App Router or similar):
- * - Would run ONLY on server
- * - Would NOT be in client JavaScript bundle at all
- * - Could directly query databases, access filesystem, use API keys
- * - Client would receive only the rendered HTML/RSC payload
- */
-function ServerProductList() {
-  // use() hook: Unwraps promises
-  // CURRENT: Works on both server and client
-  // TRUE RSC: Would run only on server
-  const data = use(getServerData());
-
-  return (
-    <div className="server-component-box">
-      <h3>Server Component (simulated)</h3>
-      <p className="info-text">
-        In a true RSC setup, this component runs only on the server. No
-        JavaScript for this component is sent to the client!
-      </p>
-
-      <div className="products-grid">
-        {data.products.map((product) => (
-          <div key={product.id} className="product-card">
-            <h4>{product.name}</h4>
-            <p className="price">${product.price}</p>
-            <p className="server-secret">{product.serverOnly}</p>
-          </div>
-        ))}
-      </div>
-    </div>
-  );
-}
-
-/**
- * ClientCounter - Simulates a Client Component
+ * submitOrder runs ONLY on the server (src/server/actions.ts). What this
+ * component imports is a typed reference that POSTs to src/server/app.ts.
  *
- * CURRENT (Traditional SSR):
- * - Runs on server during SSR (initial render with count=0)
- * - Runs on client during hydration (re-renders with count=0)
- * - All code is in the client bundle
+ * - With JavaScript: useActionState calls the action over fetch. The new
+ *   order shows up in the list right away (useOptimistic), styled as
+ *   pending, and is replaced by the real one, or removed again if the
+ *   action fails
+ * - Without JavaScript (or before hydration): the server rendered a plain
+ *   <form method="POST">, the browser posts it back to this page, and
+ *   the server runs the action and re-renders the page with its result
  *
- * TRUE RSC (would be marked with 'use client'):
- * - Would run ONLY on client
- * - Server would send a placeholder/boundary for this component
- * - Client would render it for the first time (not hydrate)
- * - This is required because it uses interactivity (useState, onClick)
+ * Validation happens on the server only, and its messages are shown next
+ * to the fields they belong to. A request that fails on its way (offline,
+ * a 5xx) ends like a failed order: see submitOrder in src/actions.
  */
-function ClientCounter({ productName }: { productName: string }) {
-  // useState with interactivity
-  // - Server: Initializes but onClick handlers don't work
-  // - Client: Full interactivity after hydration
-  const [count, setCount] = useState(0);
+const initialOrderState: OrderState = { orders: [], result: { status: "idle" } };
+
+type DisplayedOrder = Order & { pending?: boolean };
 
+// useFormStatus reads the state of the <form> this button is in, so the
+// button doesn't need isPending passed down
+function SubmitButton() {
+  const { pending } = useFormStatus();
   return (
-    <div className="client-component-box">
-      <h4>Client Component: {productName}</h4>
-      <p className="info-text">
-        This component is marked with 'use client' (conceptually). It includes
-        JavaScript in the client bundle for interactivity.
-      </p>
-      <div className="counter-controls">
-        <button onClick={() => setCount(count - 1)}>-</button>
-        <span className="count">Quantity: {count}</span>
-        <button onClick={() => setCount(count + 1)}>+</button>
-      </div>
-    </div>
+    <button type="submit" disabled={pending}>
+      {pending ? "Processing..." : "Submit Order (Server Action)"}
+    </button>
   );
 }
 
-/**
- * ServerAction simulation
- * In true RSC, this would be marked with 'use server'
- */
-async function submitOrder(formData: { product: string; quantity: number }) {
-  // Simulate server-side processing
-  await new Promise((resolve) => setTimeout(resolve, 1000));
-  console.log("Server action executed:", formData);
-  return { success: true, orderId: Math.random().toString(36).substring(7) };
+function FieldError({ field, errors }: {
+  field: OrderField;
+  errors?: Partial<Record<OrderField, string>>;
+}) {
+  const message = errors?.[field];
+  return message ? (
+    <span id={`${field}-error`} className="field-error">
+      {message}
+    </span>
+  ) : null;
 }
 
 function ServerActionDemo() {
-  const [result, setResult] = useState<string>("");
-  const [loading, setLoading] = useState(false);
-
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    setLoading(true);
+  const [state, formAction] = useActionState(
+    submitOrder,
+    initialOrderState
+  );
+  // The confirmed orders, plus the one being submitted. The optimistic
+  // entry only lives while the action runs: afterwards the list is
+  // state.orders again, with or without the new order
+  const [orders, addOptimisticOrder] = useOptimistic<DisplayedOrder[], DisplayedOrder>(
+    state.orders,
+    (orders, order) => [order, ...orders]
+  );
 
-    const formData = new FormData(e.currentTarget);
-    const data = {
-      product: formData.get("product") as string,
+  const submit = beforeFormAction(formAction, (formData) => {
+    addOptimisticOrder({
+      id: "pending",
+      product: String(formData.get("product") ?? "").trim(),
       quantity: Number(formData.get("quantity")),
-    };
+      pending: true,
+    });
+  });
 
-    // Call the server action
-    const response = await submitOrder(data);
-    setResult(`Order ${response.orderId} created successfully!`);
-    setLoading(false);
-  };
+  const { result } = state;
+  const fieldErrors = result.status === "error" ? result.fieldErrors : undefined;
+  // After an error the form shows what was submitted. React resets the
+  // form when the action finishes, and resets go to defaultValue
+  const values = result.status === "error" ? result.values : undefined;
 
   return (
     <div className="server-action-box">
-      <h3>Server Actions (simulated)</h3>
+      <h3>Server Actions</h3>
       <p className="info-text">
         Server Actions let you call server-side functions from client
-        components. They're marked with 'use server' and run securely on the
-        server.
+        components. This form works even before JavaScript has loaded: it
+        falls back to a regular POST and the server renders the result.
       </p>
 
-      <form onSubmit={handleSubmit}>
+      <form action={submit} noValidate>
         <input
           name="product"
-          defaultValue="Laptop"
+          defaultValue={values?.product ?? "Laptop"}
           placeholder="Product name"
-          required
+          aria-label="Product name"
+          aria-invalid={fieldErrors?.product ? true : undefined}
+          aria-describedby={fieldErrors?.product ? "product-error" : undefined}
         />
+        <FieldError field="product" errors={fieldErrors} />
         <input
           name="quantity"
           type="number"
-          defaultValue="1"
-          min="1"
-          required
+          defaultValue={values?.quantity ?? "1"}
+          aria-label="Quantity"
+          aria-invalid={fieldErrors?.quantity ? true : undefined}
+          aria-describedby={fieldErrors?.quantity ? "quantity-error" : undefined}
         />
-        <button type="submit" disabled={loading}>
-          {loading ? "Processing..." : "Submit Order (Server Action)"}
-        </button>
+        <FieldError field="quantity" errors={fieldErrors} />
+        <label className="demo-toggle">
+          <input type="checkbox" name="simulateFailure" />
+          Simulate a failing order
+        </label>
+        <SubmitButton />
       </form>
 
-      {result && <p className="result-message">{result}</p>}
+      {result.status === "success" && (
+        <p className="result-message">{result.message}</p>
+      )}
+      {result.status === "error" && (
+        <p className="result-message error" role="alert">{result.message}</p>
+      )}
+
+      {orders.length > 0 && (
+        <ul className="order-list" aria-label="Your orders">
+          {orders.map((order, index) => (
+            // Queued submissions are all "pending" until the server answers
+            <li
+              key={order.pending ? `pending-${index}` : order.id}
+              className={order.pending ? "pending" : undefined}
+            >
+              <span>
+                {order.quantity} × {order.product}
+              </span>
+              <span className="order-status">
+                {order.pending ? "Placing order..." : `#${order.id}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -224,14 +194,25 @@ function ServerActionDemo() {
 /**
  * ServerComponentsDemo - Main demo component
  *
- * CURRENT: Runs on both server and client (traditional SSR)
- * All child components also run on both server and client
+ * Runs on both server and client (traditional SSR). The Server
+ * Components it shows are fetched only when the button is clicked.
  */
 export function ServerComponentsDemo() {
   // State management
   // - Server: Uses initial value (false)
   // - Client: Re-initializes and becomes interactive
-  const [showDemo, setShowDemo] = useState(false);
+  // The pending/resolved RSC payload, null until the demo is loaded
+  // - Server: always null, nothing is fetched during SSR
+  // - Client: set by the button below
+  const [rscPayload, setRscPayload] = useState<Promise<ReactNode> | null>(
+    null
+  );
+  // Failure injection - client only
+  const [simulateError, setSimulateError] = useState(false);
+
+  // Each load is a fresh request to the RSC endpoint
+  const loadPayload = () =>
+    simulateError ? failingRscPayload() : fetchRscPayload();
 
   return (
     <div className="demo-section">
@@ -261,40 +242,49 @@ export function ServerComponentsDemo() {
           </li>
         </ul>
         <p className="note">
-          Note: This demo illustrates RSC concepts within traditional SSR.
-          For production RSC, use Next.js App Router which has mature, stable support.
+          Note: The product list below is a real Server Component, streamed
+          as an RSC payload. The RSC wiring is hand-rolled for this demo; for
+          production RSC, use a framework with mature support.
         </p>
       </div>
 
-      <button
-        onClick={() => {
-          serverDataCache = null; // Reset cache
-          setShowDemo(!showDemo);
-        }}
-        className="demo-button"
-      >
-        {showDemo ? "Reset Demo" : "Load Server Components"}
-      </button>
+      <div className="demo-controls">
+        <button
+          onClick={() => setRscPayload(rscPayload ? null : loadPayload())}
+          className="demo-button"
+        >
+          {rscPayload ? "Reset Demo" : "Load Server Components"}
+        </button>
+        <label className="demo-toggle">
+          <input
+            type="checkbox"
+            checked={simulateError}
+            onChange={(e) => setSimulateError(e.target.checked)}
+          />
+          Simulate network error
+        </label>
+      </div>
 
-      {showDemo && (
+      {rscPayload && (
         <div className="rsc-demo-container">
-          {/* Server Component with Suspense */}
-          <Suspense
-            fallback={
-              <div className="loading-spinner">
-                <div className="spinner"></div>
-                <span>Loading from server...</span>
-              </div>
-            }
+          {/* Server Component with Suspense. A failed fetch rejects the
+              payload promise; the error boundary shows it, and retrying
+              starts a new request */}
+          <ErrorBoundary
+            label="Server Components"
+            onRetry={() => setRscPayload(loadPayload())}
           >
-            <ServerProductList />
-          </Suspense>
-
-          {/* Client Component (would be marked 'use client') */}
-          <ClientCounter productName="Laptop" />
-
-          {/* Server Actions Demo */}
-          <ServerActionDemo />
+            <Suspense
+              fallback={
+                <div className="loading-spinner">
+                  <div className="spinner"></div>
+                  <span>Loading from server...</span>
+                </div>
+              }
+            >
+              <RscPayload payload={rscPayload} />
+            </Suspense>
+          </ErrorBoundary>
 
           {/* Composition Example */}
           <div className="composition-box">
@@ -316,6 +306,16 @@ export function ServerComponentsDemo() {
           </div>
         </div>
       )}
+
+      {/* Server Actions Demo - always rendered so the form can be
+          submitted without JavaScript, straight from the server HTML */}
+      <div className="rsc-demo-container">
+        {/* Failures the action doesn't turn into an error state would
+            otherwise unmount the whole app */}
+        <ErrorBoundary label="Server Actions">
+          <ServerActionDemo />
+        </ErrorBoundary>
+      </div>
     </div>
   );
 }
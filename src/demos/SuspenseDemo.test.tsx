@@ -0,0 +1,107 @@
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import { createDataCache } from '../data/cache'
+import { DataCacheContext, DataSourceContext, TimelineContext } from '../data/context'
+import { createFixtureSource } from '../data/fixtureSource'
+import type { DataSource, User } from '../data/source'
+import { createTimeline, type Timeline } from '../data/timeline'
+import { SuspenseDemo } from './SuspenseDemo'
+
+const fixtures = createFixtureSource({
+  users: [
+    { id: 1, name: 'Ada', email: 'ada@example.com' },
+    { id: 2, name: 'Grace', email: 'grace@example.com' },
+  ],
+  posts: [],
+})
+
+// getUser(2) waits until the test releases it
+function controllableSource() {
+  let release = () => {}
+  const gate = new Promise<void>((resolve) => (release = resolve))
+  const source: DataSource = {
+    ...fixtures,
+    getUser: async (id): Promise<User> => {
+      if (id === 2) await gate
+      return fixtures.getUser(id)
+    },
+  }
+  return { source, release }
+}
+
+async function renderDemo(source: DataSource, timeline: Timeline | null = null) {
+  await act(async () => {
+    render(
+      <DataSourceContext value={source}>
+        <DataCacheContext value={createDataCache()}>
+          <TimelineContext value={timeline}>
+            <SuspenseDemo />
+          </TimelineContext>
+        </DataCacheContext>
+      </DataSourceContext>
+    )
+  })
+}
+
+function started(timeline: Timeline) {
+  return timeline
+    .getEvents()
+    .filter(({ kind }) => kind === 'start')
+    .map(({ label }) => label)
+}
+
+async function pickUser(id: number) {
+  await act(async () => {
+    fireEvent.change(screen.getByRole('combobox', { name: 'User' }), { target: { value: String(id) } })
+  })
+}
+
+describe('SuspenseDemo', () => {
+  it('keeps the previous user on screen during a transition', async () => {
+    const { source, release } = controllableSource()
+    await renderDemo(source)
+    expect(screen.getByRole('heading', { name: 'Ada' })).toBeTruthy()
+
+    await pickUser(2)
+    expect(screen.getByRole('heading', { name: 'Ada' })).toBeTruthy()
+    expect(screen.getByText('Updating...')).toBeTruthy()
+    expect(screen.queryByText('Loading user...')).toBeNull()
+
+    await act(async () => release())
+    expect(screen.getByRole('heading', { name: 'Grace' })).toBeTruthy()
+    expect(screen.queryByText('Updating...')).toBeNull()
+  })
+
+  it('falls back to the spinner without transitions', async () => {
+    const { source, release } = controllableSource()
+    await renderDemo(source)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Without transitions' }))
+    await pickUser(2)
+    expect(screen.queryByRole('heading', { name: 'Ada' })).toBeNull()
+    expect(screen.getByText('Loading user...')).toBeTruthy()
+
+    await act(async () => release())
+    expect(screen.getByRole('heading', { name: 'Grace' })).toBeTruthy()
+  })
+
+  it('starts the posts request after the user in waterfall mode', async () => {
+    const { source, release } = controllableSource()
+    const timeline = createTimeline({ side: 'client' })
+    await renderDemo(source, timeline)
+    fireEvent.click(screen.getByRole('button', { name: 'Without transitions' }))
+    await pickUser(2)
+    expect(started(timeline)).toEqual(['user 1', 'posts 1 p1', 'user 2', 'posts 2 p1'])
+
+    // User 2 is still on its way: the requests start together...
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: 'Parallel' })))
+    expect(started(timeline)).toEqual(['user 2', 'posts 2 p1'])
+
+    // ...or one after the other
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: 'Waterfall' })))
+    expect(started(timeline)).toEqual(['user 2'])
+    await act(async () => release())
+    expect(started(timeline)).toEqual(['user 2', 'posts 2 p1'])
+    expect(screen.getByRole('heading', { name: 'Grace' })).toBeTruthy()
+  })
+})
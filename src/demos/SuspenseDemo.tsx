@@ -3,64 +3,169 @@
  *
  * Server execution (entry-server.tsx):
  * - Suspense boundaries catch thrown promises during SSR
- * - renderToString waits for promises (React 19 feature)
- * - Returns HTML with resolved data (not fallback)
+ * - The shell streams immediately with the fallback HTML
+ * - When the promise resolves, the resolved HTML streams in and replaces it
  *
  * Client execution (main.tsx):
  * - Hydrates the server-rendered content
+ * - Data resolved on the server is seeded into the cache first, so use()
+ *   returns it immediately instead of fetching it a second time
  * - Suspense boundaries become interactive
  * - Can handle new data fetching triggered by user interaction
+ *
+ * Switching users and loading more posts suspends again. How that looks
+ * depends on the mode picked in the demo:
+ * - Plain state update: the boundary goes back to its spinner, hiding what
+ *   was already on screen
+ * - startTransition (useTransition): React keeps the current content and
+ *   reports isPending until the new data is in
+ * - useDeferredValue: the list renders with the previous values, and
+ *   React renders the new ones in the background
+ *
+ * A second switch changes WHEN the posts request starts and when its
+ * boundary may reveal (parallel, waterfall, ordered reveal), and the
+ * timeline below the demo shows the result (see SuspenseTimeline.tsx).
  */
 
-import { Suspense, useState, use } from 'react'
-
-// Simulated API that returns a promise
-// Executes on both server (during SSR) and client (after user interaction)
-function fetchUser(id: number): Promise<{ id: number; name: string; email: string }> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve({
-        id,
-        name: `User ${id}`,
-        email: `user${id}@example.com`,
-      })
-    }, 1500)
-  })
+import { Suspense, use, useDeferredValue, useLayoutEffect, useState, useTransition } from 'react'
+import type { DataCache } from '../data/cache'
+import { useDataCache, useDataSource, useTimeline } from '../data/context'
+import { withFaults, type DataSource, type Page, type Post, type User } from '../data/source'
+import type { Timeline } from '../data/timeline'
+import { ErrorBoundary } from '../ErrorBoundary'
+import { SuspenseTimeline } from './SuspenseTimeline'
+
+// Reads go through the DataSource from context (see data/source.ts):
+// - Server: the source src/server/app.ts renders with, slowed down so the two
+//   boundaries below resolve one after the other
+// - Client: the REST API, for data the server didn't already send
+// `fail` (simulate network error) wraps the source so every call rejects
+function readSource(source: DataSource, fail: boolean): DataSource {
+  return fail ? withFaults(source, { latency: 800, errorRate: 1 }) : source
 }
 
-function fetchPosts(userId: number): Promise<{ id: number; title: string }[]> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve([
-        { id: 1, title: `Post 1 by user ${userId}` },
-        { id: 2, title: `Post 2 by user ${userId}` },
-        { id: 3, title: `Post 3 by user ${userId}` },
-      ])
-    }, 2000)
-  })
+// Promises are cached to avoid refetching on every render.
+// The cache comes from context: one per request on the server, one per page
+// on the client. Entries resolved during SSR are sent to the client with
+// the HTML, so hydration reads them without fetching again.
+// A failed request stays cached until the error boundary's retry
+// invalidates it, then the next render fetches again.
+function getUsersPromise(cache: DataCache, source: DataSource) {
+  return cache.get('users', () => source.getUsers())
 }
 
-// Cache for promises to avoid refetching
-const userCache = new Map<number, Promise<{ id: number; name: string; email: string }>>()
-const postsCache = new Map<number, Promise<{ id: number; title: string }[]>>()
+// What the user and posts requests go through. The timeline (if any)
+// records when each request starts and settles
+interface DataReader {
+  cache: DataCache
+  source: DataSource
+  timeline: Timeline | null
+}
 
-function getUserPromise(id: number) {
-  if (!userCache.has(id)) {
-    userCache.set(id, fetchUser(id))
-  }
-  return userCache.get(id)!
+function timed<T>(timeline: Timeline | null, label: string, request: () => Promise<T>) {
+  return () => (timeline ? timeline.track(label, request()) : request())
+}
+
+function getUserPromise({ cache, source, timeline }: DataReader, id: number) {
+  return cache.get(`user:${id}`, timed(timeline, `user ${id}`, () => source.getUser(id)))
+}
+
+// One entry per page: loading more never refetches the pages already shown
+function getPostsPromise({ cache, source, timeline }: DataReader, userId: number, page: number) {
+  return cache.get(
+    `posts:${userId}:${page}`,
+    timed(timeline, postsLabel(userId, page), () => source.getPosts(userId, { page }))
+  )
+}
+
+function postsLabel(userId: number, page: number) {
+  return `posts ${userId} p${page}`
 }
 
-function getPostsPromise(userId: number) {
-  if (!postsCache.has(userId)) {
-    postsCache.set(userId, fetchPosts(userId))
+// Records when a boundary's content shows up, under the labels of the
+// requests it shows
+// - Server: when it renders, which is when it joins the stream
+// - Client: when it's committed to the DOM (also at hydration)
+function useRevealMarker(labels: string[]) {
+  const timeline = useTimeline()
+  const key = labels.join('|')
+  if (timeline?.side === 'server') {
+    labels.forEach((label) => timeline.record(label, 'reveal'))
   }
-  return postsCache.get(userId)!
+  useLayoutEffect(() => {
+    if (timeline?.side !== 'client') return
+    key.split('|').forEach((label) => timeline.record(label, 'reveal'))
+  }, [timeline, key])
+}
+
+type UpdateMode = 'plain' | 'transition' | 'deferred'
+
+const updateModes: Record<UpdateMode, { title: string; description: string }> = {
+  plain: {
+    title: 'Without transitions',
+    description: 'A plain state update: the boundary shows its spinner again while the new data loads.',
+  },
+  transition: {
+    title: 'useTransition',
+    description: 'The update is wrapped in startTransition: the current content stays, dimmed while isPending.',
+  },
+  deferred: {
+    title: 'useDeferredValue',
+    description: 'The list renders with the deferred (previous) values until React has rendered the new ones.',
+  },
+}
+
+type FetchMode = 'parallel' | 'waterfall' | 'ordered'
+
+const fetchModes: Record<FetchMode, { title: string; description: string }> = {
+  parallel: {
+    title: 'Parallel',
+    description:
+      'Both requests start in SuspenseDemo, before either boundary renders. The posts boundary is nested in the user boundary, so posts never show up before the user.',
+  },
+  waterfall: {
+    title: 'Waterfall',
+    description:
+      'PostsList only creates the posts request after it has read the user, so the request starts when the user arrives. The wait is the sum of both.',
+  },
+  ordered: {
+    title: 'Ordered reveal',
+    description:
+      'Sibling boundaries and parallel requests, but posts wait for the user before revealing, like <SuspenseList revealOrder="forwards"> (not in stable React yet).',
+  },
 }
 
 // Components that use the `use` hook to read promises
-function UserCard({ userPromise }: { userPromise: Promise<{ id: number; name: string; email: string }> }) {
+function UserPicker({
+  usersPromise,
+  userId,
+  onChange,
+}: {
+  usersPromise: Promise<User[]>
+  userId: number
+  onChange: (id: number) => void
+}) {
+  const users = use(usersPromise)
+
+  return (
+    <select
+      value={userId}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="user-picker"
+      aria-label="User"
+    >
+      {users.map((user) => (
+        <option key={user.id} value={user.id}>
+          {user.name}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+function UserCard({ userPromise }: { userPromise: Promise<User> }) {
   const user = use(userPromise)
+  useRevealMarker([`user ${user.id}`])
 
   return (
     <div className="user-card">
@@ -70,15 +175,48 @@ function UserCard({ userPromise }: { userPromise: Promise<{ id: number; name: st
   )
 }
 
-function PostsList({ postsPromise }: { postsPromise: Promise<{ id: number; title: string }[]> }) {
-  const posts = use(postsPromise)
+// Reads every loaded page under ONE boundary. A new page suspends the list
+// as a whole: in a transition React keeps the pages already shown, without
+// one the whole list falls back to the spinner.
+// `waitFor` holds the list back until the user is in. `loadPages` is only
+// called after that, so requests it starts (waterfall) start late
+function PostsList({
+  userId,
+  loadPages,
+  waitFor,
+  onLoadMore,
+  isLoadingMore,
+}: {
+  userId: number
+  loadPages: () => Promise<Page<Post>>[]
+  waitFor?: Promise<User>
+  onLoadMore: () => void
+  isLoadingMore: boolean
+}) {
+  if (waitFor) use(waitFor)
+  const pages = loadPages().map((promise) => use(promise))
+  const lastPage = pages[pages.length - 1]
+  const posts = pages.flatMap((page) => page.items)
+  useRevealMarker(pages.map((page) => postsLabel(userId, page.page)))
 
   return (
-    <ul className="posts-list">
-      {posts.map((post) => (
-        <li key={post.id}>{post.title}</li>
-      ))}
-    </ul>
+    <div>
+      <ul className="posts-list">
+        {posts.map((post) => (
+          <li key={post.id}>{post.title}</li>
+        ))}
+      </ul>
+      <div className="posts-footer">
+        <span>
+          {posts.length} of {lastPage.total} posts
+        </span>
+        {lastPage.hasMore && (
+          <button onClick={onLoadMore} disabled={isLoadingMore} className="back-button">
+            {isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
   )
 }
 
@@ -92,16 +230,78 @@ function LoadingSpinner({ label }: { label: string }) {
 }
 
 export function SuspenseDemo() {
-  const [userId, setUserId] = useState(1)
-
-  const handleChangeUser = () => {
-    const newId = userId + 1
-    // Clear cache to show loading again
-    userCache.delete(newId)
-    postsCache.delete(newId)
-    setUserId(newId)
+  const cache = useDataCache()
+  const source = useDataSource()
+  // The user and how many pages of their posts are shown
+  // - Server: always user 1, page 1
+  // - Client: changed by the picker and "Load more"
+  const [{ userId, pageCount }, setView] = useState({ userId: 1, pageCount: 1 })
+  const [mode, setMode] = useState<UpdateMode>('transition')
+  const [fetchMode, setFetchMode] = useState<FetchMode>('parallel')
+  const timeline = useTimeline()
+  const [isPending, startTransition] = useTransition()
+  // Failure injection - client only, the server always renders with false
+  const [simulateError, setSimulateError] = useState(false)
+
+  // In "deferred" mode the boundaries render these lagging copies: first
+  // with the old values (nothing suspends), then with the new ones in the
+  // background. In the other modes they're ignored
+  const deferredUserId = useDeferredValue(userId)
+  const deferredPageCount = useDeferredValue(pageCount)
+  const shownUserId = mode === 'deferred' ? deferredUserId : userId
+  const shownPageCount = mode === 'deferred' ? deferredPageCount : pageCount
+  const isStale =
+    mode === 'deferred' ? shownUserId !== userId || shownPageCount !== pageCount : isPending
+
+  const update = (next: { userId: number; pageCount: number }) => {
+    if (mode === 'transition') {
+      startTransition(() => setView(next))
+    } else {
+      setView(next)
+    }
+  }
+
+  const handleToggleError = (enabled: boolean) => {
+    // Refetch the current user so the new setting shows immediately
+    cache.invalidate(`user:${userId}`)
+    cache.invalidate({ prefix: `posts:${userId}` })
+    setSimulateError(enabled)
+  }
+
+  const handleFetchMode = (next: FetchMode) => {
+    // Fetch the current user again, so the timeline shows the new pattern
+    cache.invalidate(`user:${userId}`)
+    cache.invalidate({ prefix: `posts:${userId}` })
+    timeline?.reset()
+    setFetchMode(next)
   }
 
+  const reader: DataReader = { cache, source: readSource(source, simulateError), timeline }
+  const userPromise = getUserPromise(reader, shownUserId)
+  const loadPages = () =>
+    Array.from({ length: shownPageCount }, (_, i) => getPostsPromise(reader, shownUserId, i + 1))
+  // Parallel and ordered: the posts requests start right here, together
+  // with the user request. Waterfall: PostsList starts them
+  const eagerPages = fetchMode === 'waterfall' ? null : loadPages()
+
+  const postsBoundary = (
+    <ErrorBoundary
+      label="posts"
+      resetKeys={[shownUserId, shownPageCount]}
+      onRetry={() => cache.invalidate({ prefix: `posts:${shownUserId}` })}
+    >
+      <Suspense fallback={<LoadingSpinner label="posts" />}>
+        <PostsList
+          userId={shownUserId}
+          loadPages={eagerPages ? () => eagerPages : loadPages}
+          waitFor={fetchMode === 'parallel' ? undefined : userPromise}
+          onLoadMore={() => update({ userId, pageCount: pageCount + 1 })}
+          isLoadingMore={isStale}
+        />
+      </Suspense>
+    </ErrorBoundary>
+  )
+
   return (
     <div className="demo-section">
       <h2>Suspense Demo</h2>
@@ -110,20 +310,75 @@ export function SuspenseDemo() {
         Suspense boundaries catch the pending state and show fallback UI.
       </p>
 
-      <button onClick={handleChangeUser} className="demo-button">
-        Load User {userId + 1}
-      </button>
+      <div className="mode-toggle" role="group" aria-label="How updates are applied">
+        {(Object.keys(updateModes) as UpdateMode[]).map((key) => (
+          <button
+            key={key}
+            className={`mode-button ${mode === key ? 'active' : ''}`}
+            aria-pressed={mode === key}
+            onClick={() => setMode(key)}
+          >
+            {updateModes[key].title}
+          </button>
+        ))}
+      </div>
+      <p className="info-text">{updateModes[mode].description}</p>
+
+      <div className="mode-toggle" role="group" aria-label="When the posts are fetched">
+        {(Object.keys(fetchModes) as FetchMode[]).map((key) => (
+          <button
+            key={key}
+            className={`mode-button ${fetchMode === key ? 'active' : ''}`}
+            aria-pressed={fetchMode === key}
+            onClick={() => handleFetchMode(key)}
+          >
+            {fetchModes[key].title}
+          </button>
+        ))}
+      </div>
+      <p className="info-text">{fetchModes[fetchMode].description}</p>
 
-      <div className="suspense-container">
-        {/* Nested Suspense boundaries for granular loading states */}
-        <Suspense fallback={<LoadingSpinner label="user" />}>
-          <UserCard userPromise={getUserPromise(userId)} />
+      <div className="demo-controls">
+        <Suspense fallback={<select className="user-picker" disabled aria-label="User" />}>
+          <UserPicker
+            usersPromise={getUsersPromise(cache, source)}
+            userId={userId}
+            onChange={(id) => update({ userId: id, pageCount: 1 })}
+          />
+        </Suspense>
+        <label className="demo-toggle">
+          <input
+            type="checkbox"
+            checked={simulateError}
+            onChange={(e) => handleToggleError(e.target.checked)}
+          />
+          Simulate network error
+        </label>
+        {isStale && <span className="pending-badge">Updating...</span>}
+      </div>
 
-          <Suspense fallback={<LoadingSpinner label="posts" />}>
-            <PostsList postsPromise={getPostsPromise(userId)} />
+      <div className={`suspense-container ${isStale ? 'stale' : ''}`} aria-busy={isStale}>
+        {/* Nested Suspense boundaries for granular loading states.
+            Each has an error boundary outside it: Suspense handles
+            "pending", the error boundary handles "rejected". resetKeys
+            (not a key) clears an error once the user changes: a key would
+            remount the boundaries, and a transition couldn't keep the
+            previous user on screen */}
+        <ErrorBoundary
+          label="user"
+          resetKeys={[shownUserId]}
+          onRetry={() => cache.invalidate(`user:${shownUserId}`)}
+        >
+          <Suspense fallback={<LoadingSpinner label="user" />}>
+            <UserCard userPromise={userPromise} />
+            {fetchMode !== 'ordered' && postsBoundary}
           </Suspense>
-        </Suspense>
+        </ErrorBoundary>
+        {/* Ordered reveal: a sibling, held back by waitFor instead */}
+        {fetchMode === 'ordered' && postsBoundary}
       </div>
+
+      {timeline && <SuspenseTimeline timeline={timeline} />}
     </div>
   )
 }
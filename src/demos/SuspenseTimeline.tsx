@@ -0,0 +1,118 @@
+/**
+ * UNIVERSAL COMPONENT (Runs on BOTH server and client)
+ *
+ * The Suspense demo's timeline (see data/timeline.ts): one bar per
+ * request, from when it started to when it settled, and a tick where the
+ * boundary showing its data revealed. The server's and the client's
+ * events get a lane each, as their clocks don't share an origin.
+ *
+ * Server execution (entry-server.tsx):
+ * - Renders the panel empty: the events are still coming in while the
+ *   page streams
+ *
+ * Client execution (main.tsx):
+ * - Hydrates the same, then shows the server's events (from the hydration
+ *   payload) and its own as they're recorded
+ */
+
+import { useSyncExternalStore } from "react";
+import type { Timeline, TimelineEvent, TimelineSide } from "../data/timeline";
+
+const noEvents: TimelineEvent[] = [];
+
+interface Span {
+  label: string;
+  start: number;
+  settled?: number;
+  failed: boolean;
+  revealed?: number;
+}
+
+// The latest request per label, how it ended and when its boundary
+// revealed after that. Earlier attempts (retries, refetches) are dropped
+function toSpans(events: TimelineEvent[]): Span[] {
+  const spans = new Map<string, Span>();
+  for (const { label, kind, at } of events) {
+    const span = spans.get(label);
+    if (kind === "start") {
+      spans.delete(label);
+      spans.set(label, { label, start: at, failed: false });
+    } else if (!span) {
+      continue;
+    } else if (kind === "reveal") {
+      span.revealed ??= at;
+    } else if (span.settled === undefined) {
+      span.settled = at;
+      span.failed = kind === "reject";
+    }
+  }
+  return [...spans.values()];
+}
+
+function percent(at: number, end: number) {
+  return `${(at / end) * 100}%`;
+}
+
+function Lane({ side, events }: { side: TimelineSide; events: TimelineEvent[] }) {
+  const spans = toSpans(events.filter((event) => event.side === side));
+  // Scaled to the lane's last event, so short and long runs both fill it
+  const end = Math.max(1, ...events.filter((event) => event.side === side).map(({ at }) => at));
+
+  return (
+    <div className="timeline-lane">
+      <h4>
+        {side === "server" ? "Server" : "Client"} <span className="timeline-end">{end} ms</span>
+      </h4>
+      {spans.length === 0 ? (
+        <p className="timeline-empty">Nothing fetched here yet.</p>
+      ) : (
+        <ul>
+          {spans.map((span) => (
+            <li key={span.label} className="timeline-row">
+              <span className="timeline-label">{span.label}</span>
+              <span className="timeline-track">
+                <span
+                  className={`timeline-bar ${span.failed ? "failed" : ""} ${
+                    span.settled === undefined ? "pending" : ""
+                  }`}
+                  style={{
+                    left: percent(span.start, end),
+                    width: percent((span.settled ?? end) - span.start, end),
+                  }}
+                  title={`${span.label}: ${span.start}–${span.settled ?? "…"} ms`}
+                />
+                {span.revealed !== undefined && (
+                  <span
+                    className="timeline-reveal"
+                    style={{ left: percent(span.revealed, end) }}
+                    title={`Revealed at ${span.revealed} ms`}
+                  />
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function SuspenseTimeline({ timeline }: { timeline: Timeline }) {
+  const events = useSyncExternalStore(timeline.subscribe, timeline.getEvents, () => noEvents);
+
+  return (
+    <div className="suspense-timeline">
+      <div className="timeline-header">
+        <h3>Timeline</h3>
+        <span className="timeline-legend">
+          <span className="timeline-bar" /> request <span className="timeline-reveal" /> reveal
+        </span>
+        <button onClick={timeline.reset} className="back-button">
+          Clear
+        </button>
+      </div>
+      <Lane side="server" events={events} />
+      <Lane side="client" events={events} />
+    </div>
+  );
+}
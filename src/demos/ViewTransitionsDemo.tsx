@@ -11,11 +11,31 @@
  * - View Transitions API works in browser
  * - Interactive state changes trigger smooth visual transitions
  *
+ * Two implementations of the same gallery, switchable with a toggle:
+ * - Manual: document.startViewTransition + flushSync, names as inline styles
+ * - Component: <ViewTransition> boundaries + startTransition, with
+ *   enter/exit/share classes (see ViewTransition.tsx and transitions.ts)
+ *
  * Note: View Transitions are a CLIENT-ONLY browser feature
  */
 
-import { useState, useCallback } from "react";
-import { flushSync } from "react-dom";
+import {
+  cloneElement,
+  useCallback,
+  useState,
+  useSyncExternalStore,
+  type CSSProperties,
+  type ReactElement,
+} from "react";
+import {
+  ReactViewTransition,
+  startComponentTransition,
+  startViewTransition,
+  supportsViewTransitions,
+} from "../transitions";
+import { ViewTransition } from "../ViewTransition";
+
+type TransitionMode = "manual" | "component";
 
 interface Item {
   id: number;
@@ -55,7 +75,36 @@ const items: Item[] = [
   },
 ];
 
-function ListView({ onSelect }: { onSelect: (item: Item) => void }) {
+// Gives an element a view-transition-name, the way the current mode does it
+function Shared({
+  mode,
+  name,
+  children,
+}: {
+  mode: TransitionMode;
+  name: string;
+  children: ReactElement<{ style?: CSSProperties }>;
+}) {
+  if (mode === "component") {
+    return (
+      <ViewTransition name={name} share="vt-morph">
+        {children}
+      </ViewTransition>
+    );
+  }
+  // Manual mode: the name is a plain inline style
+  return cloneElement(children, {
+    style: { ...children.props.style, viewTransitionName: name },
+  });
+}
+
+function ListView({
+  mode,
+  onSelect,
+}: {
+  mode: TransitionMode;
+  onSelect: (item: Item) => void;
+}) {
   return (
     <div className="list-view">
       <h3>Gallery</h3>
@@ -66,18 +115,12 @@ function ListView({ onSelect }: { onSelect: (item: Item) => void }) {
             className="item-card"
             onClick={() => onSelect(item)}
           >
-            <span
-              className="item-emoji"
-              style={{ viewTransitionName: `image-${item.id}` }}
-            >
-              {item.image}
-            </span>
-            <span
-              className="item-title"
-              style={{ viewTransitionName: `title-${item.id}` }}
-            >
-              {item.title}
-            </span>
+            <Shared mode={mode} name={`image-${item.id}`}>
+              <span className="item-emoji">{item.image}</span>
+            </Shared>
+            <Shared mode={mode} name={`title-${item.id}`}>
+              <span className="item-title">{item.title}</span>
+            </Shared>
           </button>
         ))}
       </div>
@@ -85,82 +128,146 @@ function ListView({ onSelect }: { onSelect: (item: Item) => void }) {
   );
 }
 
-function DetailView({ item, onBack }: { item: Item; onBack: () => void }) {
+function DetailView({
+  mode,
+  item,
+  onBack,
+}: {
+  mode: TransitionMode;
+  item: Item;
+  onBack: () => void;
+}) {
+  const description = <p className="detail-description">{item.description}</p>;
+
   return (
     <div className="detail-view">
       <button className="back-button" onClick={onBack}>
         ← Back to Gallery
       </button>
       <div className="detail-content">
-        <span
-          className="detail-emoji"
-          style={{ viewTransitionName: `image-${item.id}` }}
-        >
-          {item.image}
-        </span>
-        <h3
-          className="detail-title"
-          style={{ viewTransitionName: `title-${item.id}` }}
-        >
-          {item.title}
-        </h3>
-        <p className="detail-description">{item.description}</p>
+        <Shared mode={mode} name={`image-${item.id}`}>
+          <span className="detail-emoji">{item.image}</span>
+        </Shared>
+        <Shared mode={mode} name={`title-${item.id}`}>
+          <h3 className="detail-title">{item.title}</h3>
+        </Shared>
+        {/* Only exists in the detail view: enter and exit animations.
+            In manual mode it's part of the page-wide cross-fade */}
+        {mode === "component" ? (
+          <ViewTransition
+            name="detail-description"
+            enter="vt-slide-in"
+            exit="vt-fade-out"
+          >
+            {description}
+          </ViewTransition>
+        ) : (
+          description
+        )}
       </div>
     </div>
   );
 }
 
+const implementations: Record<TransitionMode, { title: string; code: string }> = {
+  manual: {
+    title: "startViewTransition + flushSync",
+    code: `document.startViewTransition(() => {
+  flushSync(() => setSelectedItem(item));
+});
+
+<span style={{ viewTransitionName: "image-1" }} />`,
+  },
+  component: {
+    title: "<ViewTransition> + startTransition",
+    code: `startTransition(() => setSelectedItem(item));
+
+<ViewTransition name="image-1" share="vt-morph">
+  <span />
+</ViewTransition>`,
+  },
+};
+
+// Browser support never changes while the page is open
+const subscribeToNothing = () => () => {};
+
 export function ViewTransitionsDemo() {
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
+  const [mode, setMode] = useState<TransitionMode>("manual");
+  // - Server: assumes support, so no warning is rendered into the HTML
+  // - Client: the real answer, applied right after hydration
+  const browserSupport = useSyncExternalStore(
+    subscribeToNothing,
+    supportsViewTransitions,
+    () => true
+  );
 
-  const handleSelect = useCallback((item: Item) => {
-    // View Transitions API requires synchronous DOM updates
-    // flushSync forces React to update the DOM immediately
-    if (document.startViewTransition) {
-      document.startViewTransition(() => {
-        flushSync(() => {
-          setSelectedItem(item);
-        });
-      });
-    } else {
-      setSelectedItem(item);
-    }
-  }, []);
-
-  const handleBack = useCallback(() => {
-    if (document.startViewTransition) {
-      document.startViewTransition(() => {
-        flushSync(() => {
-          setSelectedItem(null);
-        });
-      });
-    } else {
-      setSelectedItem(null);
-    }
-  }, []);
+  const show = useCallback(
+    (item: Item | null) => {
+      const update = () => setSelectedItem(item);
+      if (mode === "component") {
+        startComponentTransition(update);
+      } else {
+        // View Transitions API requires synchronous DOM updates:
+        // startViewTransition uses flushSync inside the callback
+        startViewTransition(update);
+      }
+    },
+    [mode]
+  );
 
   return (
     <div className="demo-section">
       <h2>View Transitions Demo</h2>
       <p className="demo-description">
-        View Transitions use the browser's View Transitions API with{" "}
-        <code>flushSync</code> to force synchronous DOM updates. Elements with
-        matching <code>viewTransitionName</code> styles animate smoothly between
-        views.
+        The same gallery, animated two ways. Elements with matching view
+        transition names animate smoothly between views. Switch the
+        implementation to compare them.
       </p>
 
+      <div className="mode-toggle" role="group" aria-label="Implementation">
+        {(Object.keys(implementations) as TransitionMode[]).map((key) => (
+          <button
+            key={key}
+            className={`mode-button ${mode === key ? "active" : ""}`}
+            aria-pressed={mode === key}
+            onClick={() => setMode(key)}
+          >
+            {implementations[key].title}
+          </button>
+        ))}
+      </div>
+
+      <div className="implementation-grid">
+        {(Object.keys(implementations) as TransitionMode[]).map((key) => (
+          <div
+            key={key}
+            className={`implementation-card ${mode === key ? "active" : ""}`}
+          >
+            <h4>{implementations[key].title}</h4>
+            <pre>
+              <code>{implementations[key].code}</code>
+            </pre>
+          </div>
+        ))}
+      </div>
+
       <div className="transition-container">
         {selectedItem ? (
-          <DetailView item={selectedItem} onBack={handleBack} />
+          <DetailView mode={mode} item={selectedItem} onBack={() => show(null)} />
         ) : (
-          <ListView onSelect={handleSelect} />
+          <ListView mode={mode} onSelect={show} />
         )}
       </div>
 
       <div className="demo-note">
         <strong>Note:</strong> View Transitions require browser support (Chrome
-        111+, Edge 111+). The <code>flushSync</code> ensures the DOM updates
-        synchronously within the transition callback.
+        111+, Edge 111+, Safari 18+).{" "}
+        {!browserSupport &&
+          "Your browser doesn't support them: both modes apply updates instantly. "}
+        {mode === "component" &&
+          !ReactViewTransition &&
+          "This React build doesn't export <ViewTransition> yet (canary and experimental builds do), so the component mode uses a stand-in that sets the same names and classes and animates through the manual API."}
       </div>
     </div>
   );
@@ -0,0 +1,93 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Every demo is its own chunk, loaded with lazy() when its tab is shown.
+ *
+ * Server execution (entry-server.tsx):
+ * - All demos are preloaded once at startup, so lazy() never suspends
+ *   during SSR and the active demo is rendered straight into the shell
+ * - `id` is the module's key in ssr-manifest.json; App collects it so the
+ *   <head> preloads the chunk (see preload.ts)
+ *
+ * Client execution (main.tsx):
+ * - The server-rendered demo's chunk is preloaded BEFORE hydrateRoot, so
+ *   hydration finds it ready and never replaces the HTML with a fallback
+ * - Other tabs load their chunk on first visit, showing App's fallback
+ */
+
+import { lazy, type ComponentType, type LazyExoticComponent } from "react";
+import type { Demo } from "../router";
+
+interface DemoModule {
+  id: string;
+  load: () => Promise<ComponentType>;
+}
+
+const demoModules: Record<Demo, DemoModule> = {
+  suspense: {
+    id: "src/demos/SuspenseDemo.tsx",
+    load: () => import("./SuspenseDemo").then((m) => m.SuspenseDemo),
+  },
+  activity: {
+    id: "src/demos/ActivityDemo.tsx",
+    load: () => import("./ActivityDemo").then((m) => m.ActivityDemo),
+  },
+  viewtransitions: {
+    id: "src/demos/ViewTransitionsDemo.tsx",
+    load: () => import("./ViewTransitionsDemo").then((m) => m.ViewTransitionsDemo),
+  },
+  servercomponents: {
+    id: "src/demos/ServerComponentsDemo.tsx",
+    load: () => import("./ServerComponentsDemo").then((m) => m.ServerComponentsDemo),
+  },
+};
+
+interface LoadedDemo {
+  Component: LazyExoticComponent<ComponentType>;
+  preload: () => Promise<ComponentType>;
+}
+
+function createLazyDemo({ load }: DemoModule): LoadedDemo {
+  let loaded: ComponentType | undefined;
+  let pending: Promise<ComponentType> | undefined;
+
+  // A failed load isn't kept, so the next attempt imports the chunk again
+  const preload = () =>
+    (pending ??= load().then(
+      (component) => (loaded = component),
+      (error) => {
+        pending = undefined;
+        throw error;
+      }
+    ));
+
+  const Component = lazy(() => {
+    // Already loaded: a thenable that resolves synchronously lets React
+    // render the demo right away. A real promise, even a resolved one,
+    // would suspend for a tick, and during hydration that is enough to
+    // make React skip the server HTML and try again later
+    if (loaded) {
+      const module = { default: loaded };
+      return { then: (resolve: (value: typeof module) => void) => resolve(module) } as Promise<typeof module>;
+    }
+    return preload().then((component) => ({ default: component }));
+  });
+
+  return { Component, preload };
+}
+
+const lazyDemos = Object.fromEntries(
+  Object.entries(demoModules).map(([demo, module]) => [demo, createLazyDemo(module)])
+) as Record<Demo, LoadedDemo>;
+
+export const demoComponents = Object.fromEntries(
+  Object.entries(lazyDemos).map(([demo, { Component }]) => [demo, Component])
+) as Record<Demo, LazyExoticComponent<ComponentType>>;
+
+export function demoModuleId(demo: Demo): string {
+  return demoModules[demo].id;
+}
+
+export async function preloadDemo(demo: Demo): Promise<void> {
+  await lazyDemos[demo].preload();
+}
@@ -0,0 +1,70 @@
+import { act } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
+import { createRoot, hydrateRoot } from 'react-dom/client'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { OVERLAY_ID, rootDiagnostics } from './diagnostics'
+import { ErrorBoundary } from './ErrorBoundary'
+import type { ClientErrorReport } from './server/report'
+
+// Renders something else on the server than on the client
+function Side({ side }: { side: string }) {
+  return <p>Rendered on the {side}</p>
+}
+
+function Broken(): never {
+  throw new Error('Broken on purpose')
+}
+
+async function hydrateMismatch(options: Parameters<typeof rootDiagnostics>[0]) {
+  const container = document.createElement('div')
+  container.innerHTML = renderToString(<Side side="server" />)
+  document.body.append(container)
+  await act(async () => {
+    hydrateRoot(container, <Side side="client" />, rootDiagnostics(options))
+  })
+  return container
+}
+
+describe('rootDiagnostics', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  it('shows hydration mismatches in the overlay', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const container = await hydrateMismatch({ mode: 'overlay' })
+
+    // React recovered by rendering on the client
+    expect(container.textContent).toBe('Rendered on the client')
+    const overlay = document.getElementById(OVERLAY_ID)!
+    expect(overlay.textContent).toContain('Recovered error (e.g. hydration mismatch)')
+    expect(overlay.textContent).toContain("Hydration failed because the server rendered text didn't match the client")
+    expect(overlay.querySelector('.diagnostics-stack')?.textContent).toContain('Side')
+  })
+
+  it('reports every kind of error in report mode', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const sent: { url: string; report: ClientErrorReport }[] = []
+    const options = {
+      mode: 'report' as const,
+      reportUrl: '/base/__report',
+      send: (url: string, report: ClientErrorReport) => sent.push({ url, report }),
+    }
+    await hydrateMismatch(options)
+    await act(async () => {
+      createRoot(document.createElement('div'), rootDiagnostics(options)).render(
+        <ErrorBoundary>
+          <Broken />
+        </ErrorBoundary>
+      )
+    })
+
+    expect(sent.map(({ report }) => report.kind)).toEqual(['recoverable', 'caught'])
+    expect(sent[1]).toMatchObject({
+      url: '/base/__report',
+      report: { message: 'Broken on purpose', url: window.location.href },
+    })
+    expect(document.getElementById(OVERLAY_ID)).toBeNull()
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * CLIENT-SIDE ONLY - Error diagnostics for the React root
+ *
+ * React recovers from some errors by itself, and without handlers only
+ * logs them to the console:
+ * - Hydration mismatches: the server's HTML differs from the client's
+ *   first render (a random ID, the time, browser-only state). React throws
+ *   the server HTML away up to the nearest Suspense boundary and renders
+ *   it again on the client (onRecoverableError)
+ * - Server-rendered boundaries that failed on the server, which the client
+ *   renders again (onRecoverableError too, with the server's digest)
+ * - Errors an error boundary caught (onCaughtError)
+ * - Errors no boundary caught, which unmount the app (onUncaughtError)
+ *
+ * rootDiagnostics() returns handlers for all of them, for hydrateRoot and
+ * createRoot in main.tsx. Every error is still logged to the console, and:
+ * - Development: recoverable and uncaught errors show up in an overlay,
+ *   with their component stack (caught ones already show a fallback)
+ * - Production: every error is sent to the server's {BASE}__report
+ *   endpoint, which logs it (see server/report.ts)
+ *
+ * NEVER runs on the server.
+ */
+
+import type { RootOptions } from "react-dom/client";
+import { withBase } from "./router";
+import type { ClientErrorKind, ClientErrorReport } from "./server/report";
+
+export const OVERLAY_ID = "diagnostics-overlay";
+
+export interface DiagnosticsOptions {
+  /** "overlay" in development, "report" in production by default. */
+  mode?: "overlay" | "report";
+  /** Where reports go, "{BASE}__report" by default. */
+  reportUrl?: string;
+  /** Replaceable in tests. */
+  send?: (url: string, report: ClientErrorReport) => void;
+}
+
+type RootErrorHandlers = Required<
+  Pick<RootOptions, "onRecoverableError" | "onCaughtError" | "onUncaughtError">
+>;
+
+function toReport(
+  kind: ClientErrorKind,
+  error: unknown,
+  componentStack?: string | null
+): ClientErrorReport {
+  const { message = String(error), digest } =
+    error instanceof Error ? (error as Error & { digest?: string }) : {};
+  return {
+    kind,
+    message,
+    url: window.location.href,
+    ...(digest !== undefined && { digest }),
+    ...(componentStack && { componentStack: componentStack.trim() }),
+  };
+}
+
+// A beacon survives the page unloading (an uncaught error often ends with a
+// reload), and needs no response
+function sendBeacon(url: string, report: ClientErrorReport) {
+  const body = new Blob([JSON.stringify(report)], { type: "application/json" });
+  if (!navigator.sendBeacon?.(url, body)) {
+    fetch(url, { method: "POST", body, keepalive: true }).catch(() => {});
+  }
+}
+
+const kindTitles: Record<ClientErrorKind, string> = {
+  recoverable: "Recovered error (e.g. hydration mismatch)",
+  caught: "Caught by an error boundary",
+  uncaught: "Uncaught error",
+};
+
+// Plain DOM instead of React: it has to work when the React tree doesn't
+function showOverlay(report: ClientErrorReport) {
+  let overlay = document.getElementById(OVERLAY_ID);
+  if (!overlay) {
+    overlay = document.createElement("div");
+    overlay.id = OVERLAY_ID;
+    overlay.setAttribute("role", "alert");
+
+    const close = document.createElement("button");
+    close.className = "diagnostics-close";
+    close.textContent = "Dismiss";
+    close.addEventListener("click", () => overlay!.remove());
+    overlay.append(close);
+    document.body.append(overlay);
+  }
+
+  const entry = document.createElement("section");
+  entry.className = "diagnostics-entry";
+  const title = document.createElement("h2");
+  title.textContent = kindTitles[report.kind];
+  const message = document.createElement("pre");
+  message.textContent = report.message;
+  entry.append(title, message);
+  if (report.componentStack) {
+    const stack = document.createElement("pre");
+    stack.className = "diagnostics-stack";
+    stack.textContent = report.componentStack;
+    entry.append(stack);
+  }
+  overlay.append(entry);
+}
+
+export function rootDiagnostics({
+  mode = import.meta.env.DEV ? "overlay" : "report",
+  reportUrl = withBase("/__report"),
+  send = sendBeacon,
+}: DiagnosticsOptions = {}): RootErrorHandlers {
+  function handle(kind: ClientErrorKind, error: unknown, componentStack?: string | null) {
+    // Handlers replace React's own logging, so keep it
+    console.error(error);
+    const report = toReport(kind, error, componentStack);
+    if (mode === "report") {
+      send(reportUrl, report);
+    } else if (kind !== "caught") {
+      showOverlay(report);
+    }
+  }
+
+  return {
+    onRecoverableError: (error, { componentStack }) =>
+      handle("recoverable", error, componentStack),
+    onCaughtError: (error, { componentStack }) => handle("caught", error, componentStack),
+    onUncaughtError: (error, { componentStack }) => handle("uncaught", error, componentStack),
+  };
+}
@@ -0,0 +1,111 @@
+// @vitest-environment node
+/// <reference types="node" />
+import { Writable } from 'node:stream'
+import { describe, it, expect } from 'vitest'
+import { createFixtureSource } from './data/fixtureSource'
+import { preloadDemos, render } from './entry-server'
+import manifest from './test/fixtures/ssr-manifest.json'
+
+// The fixtures without the demo's latency: fast and deterministic
+const dataSource = createFixtureSource()
+
+// Renders a URL to completion and returns the HTML plus its hydration payload
+function renderToCompletion(url: string) {
+  return new Promise<{ html: string; data: string }>((resolve, reject) => {
+    let html = ''
+    const { pipe, getDataScript } = render(url, undefined, {
+      onShellReady() {
+        pipe(
+          new Writable({
+            write(chunk, _encoding, callback) {
+              html += chunk
+              callback()
+            },
+            final(callback) {
+              resolve({ html, data: getDataScript() })
+              callback()
+            },
+          })
+        )
+      },
+      onShellError: reject,
+    }, dataSource)
+  })
+}
+
+// The hydration payload inside getDataScript()'s <script> tag
+function payloadOf(dataScript: string) {
+  return JSON.parse(dataScript.replace(/^<script[^>]*>/, '').replace(/<\/script>$/, ''))
+}
+
+describe('render() data isolation', () => {
+  it('never shares cached data between concurrent requests', async () => {
+    // Both requests are in flight at the same time
+    const [suspense, activity] = await Promise.all([
+      renderToCompletion('/suspense'),
+      renderToCompletion('/activity'),
+    ])
+
+    expect(suspense.data).toContain('"user:1"')
+    expect(suspense.data).toContain('"posts:1:1"')
+    expect(suspense.html).toContain('Ada Lovelace')
+    // The Activity page fetches nothing, so it must not carry user data
+    expect(activity.data).not.toContain('user:1')
+    expect(activity.data).not.toContain('posts:1')
+  })
+
+  it('starts every request with an empty cache', async () => {
+    await renderToCompletion('/suspense')
+    const second = await renderToCompletion('/activity')
+
+    expect(payloadOf(second.data).data).toEqual({})
+  })
+})
+
+describe('render() head', () => {
+  it('preloads the chunk of the rendered demo from the SSR manifest', async () => {
+    const head = await new Promise<string>((resolve, reject) => {
+      // Without latency the render finishes at once: nothing is left running
+      const { getHead } = render('/suspense', JSON.stringify(manifest), {
+        onAllReady: () => resolve(getHead()),
+        onShellError: reject,
+      }, dataSource)
+    })
+
+    expect(head).toContain('<title data-app-head>Suspense and use() · React 19 Demo</title>')
+    expect(head).toContain('<link rel="modulepreload" crossorigin href="/assets/SuspenseDemo-Bq3kC1xe.js">')
+    expect(head).toContain('<link rel="stylesheet" href="/assets/SuspenseDemo-D8xq2ZlM.css">')
+    // Only the demo that was rendered
+    expect(head).not.toContain('ActivityDemo')
+  })
+})
+
+describe('render() code splitting', () => {
+  it('renders the lazily loaded demo into the shell once the chunks are preloaded', async () => {
+    await preloadDemos()
+    const shell = await new Promise<string>((resolve, reject) => {
+      let html = ''
+      const { pipe, abort } = render('/activity', undefined, {
+        onShellReady() {
+          pipe(
+            new Writable({
+              write(chunk, _encoding, callback) {
+                html += chunk
+                // Everything up to here was written with the shell. The
+                // rest isn't needed, but React mustn't be aborted while
+                // it's writing to us
+                resolve(html)
+                setImmediate(() => abort())
+                callback()
+              },
+            })
+          )
+        },
+        onShellError: reject,
+      })
+    })
+
+    expect(shell).toContain('Activity Demo')
+    expect(shell).not.toContain('Loading demo...')
+  })
+})
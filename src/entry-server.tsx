@@ -2,31 +2,124 @@
  * SERVER-SIDE RENDERING ENTRY POINT
  *
  * This file runs ONLY on the server (Node.js).
- * It's called by server.tsx during each page request to generate HTML.
+ * It's called by src/server/app.ts during each page request to generate HTML.
  *
  * Flow:
  * 1. Server calls render() function
- * 2. renderToString() executes all React components on the server
- * 3. Returns HTML string (no interactivity yet)
- * 4. Server sends this HTML to browser
- * 5. Browser receives HTML and displays it immediately (fast initial paint)
- * 6. Browser downloads and runs main.tsx to "hydrate" (add interactivity)
+ * 2. renderToPipeableStream() executes all React components on the server
+ * 3. As soon as the "shell" is ready (everything outside Suspense boundaries
+ *    plus their fallbacks), src/server/app.ts starts piping HTML to the
+ *    browser
+ * 4. Suspended boundaries keep rendering; when their promises resolve, React
+ *    streams the finished HTML plus a tiny inline script that swaps it in
+ * 5. Browser displays the shell immediately (fast initial paint) and fills in
+ *    each boundary as it arrives
+ *    The <head> gets the page's meta tags and preload links for the chunks
+ *    the render used (see server/preload.ts)
+ * 6. Once the stream ends, the data resolved during the render is appended as
+ *    a JSON payload (see data/hydration.ts)
+ * 7. Browser downloads and runs main.tsx to "hydrate" (add interactivity)
  *
  * NEVER runs in the browser.
  */
 
 import { StrictMode } from 'react'
-import { renderToString } from 'react-dom/server'
+import {
+  renderToPipeableStream,
+  type RenderToPipeableStreamOptions,
+} from 'react-dom/server'
 import App from './App'
+import { createDataCache } from './data/cache'
+import { DataCacheContext, DataSourceContext, TimelineContext } from './data/context'
+import { createFixtureSource } from './data/fixtureSource'
+import { demoLatency, withFaults, type DataSource } from './data/source'
+import { createTimeline } from './data/timeline'
+import { serializeHydrationData } from './data/hydration'
+import { headForRoute, renderHead } from './head'
+import { preloadDemo } from './demos'
+import { ModuleCollectorContext } from './preload'
+import { demoRoutes, matchRoute } from './router'
+import { parseSsrManifest, renderPreloadLinks } from './server/preload'
 
-export function render(_url: string, _ssrManifest?: string) {
-  // renderToString(): Synchronously renders React tree to HTML string
-  // All components in <App /> execute HERE on the server
-  const html = renderToString(
+// server/app.ts uses this to answer redirects and 404s before rendering,
+// prerender.ts to know which pages to write
+export { demoRoutes, matchRoute } from './router'
+// Server Actions live in the server bundle and are invoked by server/app.ts
+export { callAction, runFormAction } from './server/actions'
+
+// Loads every demo chunk (only once): lazy() then never suspends on the
+// server and the active demo is part of the shell. server/app.ts awaits this
+// before rendering. It can't be a top-level await: the demo chunks import
+// this module, so the bundle would wait for itself
+export async function preloadDemos() {
+  await Promise.all(demoRoutes.map(({ demo }) => preloadDemo(demo)))
+}
+
+// prerender.ts renders the static build with the bundled fixtures;
+// server.tsx passes its own source (the one behind its REST API) to
+// server/app.ts, which hands it to render()
+const fixtureSource = withFaults(createFixtureSource(), { latency: demoLatency })
+
+export function render(
+  url: string,
+  ssrManifest?: string,
+  options?: RenderToPipeableStreamOptions,
+  dataSource: DataSource = fixtureSource
+) {
+  // renderToPipeableStream(): Renders the React tree to a Node.js stream
+  // All components in <App /> execute HERE on the server.
+  // Unlike renderToString, which returns one string at the end, Suspense
+  // fallbacks go out with the shell and resolved content streams in later.
+  // A fresh cache for THIS request only. This module is imported once and
+  // reused for every request, so a module-level cache would leak data
+  // (and cached failures) between users.
+  const dataCache = createDataCache()
+  // Source modules rendered by THIS request, for the preload links
+  const modules = new Set<string>()
+  // When this request's data was fetched and revealed (Suspense demo)
+  const timeline = createTimeline({ side: 'server' })
+
+  const { pipe, abort } = renderToPipeableStream(
     <StrictMode>
-      <App />
-    </StrictMode>
+      <DataSourceContext value={dataSource}>
+        <DataCacheContext value={dataCache}>
+          <TimelineContext value={timeline}>
+            <ModuleCollectorContext value={modules}>
+              <App url={url} />
+            </ModuleCollectorContext>
+          </TimelineContext>
+        </DataCacheContext>
+      </DataSourceContext>
+    </StrictMode>,
+    options
   )
 
-  return { html }
+  return {
+    pipe,
+    abort,
+    // Contents of <!--app-head-->: title, description, canonical and Open
+    // Graph tags, then preload links. Called once the shell is ready, when
+    // every module outside pending Suspense boundaries has been collected.
+    // Without a manifest (dev) there's nothing to preload: Vite serves
+    // modules on demand
+    getHead: () =>
+      [
+        renderHead(headForRoute(matchRoute(url))),
+        renderPreloadLinks(modules, parseSsrManifest(ssrManifest)),
+      ]
+        .filter(Boolean)
+        .join('\n    '),
+    // Called by server/app.ts after the stream has finished, when every
+    // boundary that could resolve has resolved. It gets the same CSP nonce
+    // as React's own inline scripts
+    getDataScript: () =>
+      serializeHydrationData(
+        {
+          data: dataCache.dehydrate(),
+          formState: options?.formState ?? null,
+          timeline: timeline.getEvents(),
+        },
+        options?.nonce
+      ),
+  }
 }
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { applyHead, headForRoute, renderHead } from './head'
+
+describe('head tags', () => {
+  it('renders the demo title, description and canonical link', () => {
+    const html = renderHead(headForRoute({ type: 'demo', demo: 'activity' }))
+    expect(html).toContain('<title data-app-head>Activity · React 19 Demo</title>')
+    expect(html).toContain('<link data-app-head rel="canonical" href="/activity">')
+    expect(html).toContain('property="og:title" content="Activity · React 19 Demo"')
+    // Descriptions are escaped ("<Activity>")
+    expect(html).toContain("React 19.2's &lt;Activity&gt;")
+  })
+
+  it('marks unknown pages as noindex', () => {
+    const html = renderHead(headForRoute({ type: 'not-found' }))
+    expect(html).toContain('name="robots" content="noindex"')
+    expect(html).not.toContain('canonical')
+  })
+
+  it('replaces the previous page tags on navigation', () => {
+    applyHead(headForRoute({ type: 'demo', demo: 'suspense' }))
+    applyHead(headForRoute({ type: 'demo', demo: 'viewtransitions' }))
+
+    expect(document.title).toBe('View Transitions · React 19 Demo')
+    expect(document.head.querySelectorAll('title')).toHaveLength(1)
+    expect(document.head.querySelectorAll('link[rel="canonical"]')).toHaveLength(1)
+    expect(
+      document.head.querySelector('meta[name="description"]')?.getAttribute('content')
+    ).toMatch(/View Transitions API/)
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Per-page <head> tags: title, description, canonical URL and Open Graph.
+ * The values come from the route table in router.ts.
+ *
+ * Server execution (entry-server.tsx):
+ * - renderHead() turns the tags into HTML, which server/app.ts (and
+ *   prerender.ts) put in place of <!--app-head--> in index.html
+ *
+ * Client execution (App.tsx):
+ * - applyHead() swaps the tags in document.head after every navigation
+ *
+ * Why not React 19's built-in <title>/<meta> hoisting? This app renders
+ * into <div id="root">, not the whole document. Rendered that way, React
+ * streams hoisted tags at the start of #root instead of into <head>, where
+ * crawlers and link previews look for them.
+ */
+
+import { routeForDemo, withBase, type RouteMatch } from "./router";
+
+const siteName = "React 19 Demo";
+
+// Absolute URLs for canonical/og:url, e.g. "https://example.github.io".
+// Without it the canonical link is site-relative and og:url is left out.
+const siteUrl = (import.meta.env.VITE_SITE_URL ?? "").replace(/\/+$/, "");
+
+export interface HeadTag {
+  tag: "title" | "meta" | "link";
+  attributes?: Record<string, string>;
+  text?: string;
+}
+
+export function headForRoute(route: RouteMatch): HeadTag[] {
+  if (route.type === "not-found") {
+    return [
+      { tag: "title", text: `Page not found · ${siteName}` },
+      { tag: "meta", attributes: { name: "robots", content: "noindex" } },
+    ];
+  }
+
+  // A redirect renders (and is canonically) its target demo
+  const { path, title, description } = routeForDemo(route.demo);
+  const fullTitle = `${title} · ${siteName}`;
+  const url = `${siteUrl}${withBase(path)}`;
+
+  return [
+    { tag: "title", text: fullTitle },
+    { tag: "meta", attributes: { name: "description", content: description } },
+    { tag: "link", attributes: { rel: "canonical", href: url } },
+    { tag: "meta", attributes: { property: "og:type", content: "website" } },
+    { tag: "meta", attributes: { property: "og:site_name", content: siteName } },
+    { tag: "meta", attributes: { property: "og:title", content: fullTitle } },
+    { tag: "meta", attributes: { property: "og:description", content: description } },
+    ...(siteUrl
+      ? [{ tag: "meta" as const, attributes: { property: "og:url", content: url } }]
+      : []),
+  ];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Marks the tags this module manages, so applyHead() can replace exactly those
+const HEAD_ATTRIBUTE = "data-app-head";
+
+export function renderHead(tags: HeadTag[]): string {
+  return tags
+    .map(({ tag, attributes = {}, text }) => {
+      const attrs = Object.entries(attributes)
+        .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+        .join("");
+      const open = `<${tag} ${HEAD_ATTRIBUTE}${attrs}>`;
+      return tag === "title" ? `${open}${escapeHtml(text ?? "")}</title>` : open;
+    })
+    .join("\n    ");
+}
+
+export function applyHead(tags: HeadTag[], doc: Document = document) {
+  for (const element of doc.head.querySelectorAll(`[${HEAD_ATTRIBUTE}]`)) {
+    element.remove();
+  }
+  for (const { tag, attributes = {}, text } of tags) {
+    const element = doc.createElement(tag);
+    element.setAttribute(HEAD_ATTRIBUTE, "");
+    for (const [name, value] of Object.entries(attributes)) {
+      element.setAttribute(name, value);
+    }
+    if (text !== undefined) element.textContent = text;
+    doc.head.append(element);
+  }
+}
@@ -0,0 +1,154 @@
+import { act, fireEvent, screen, within } from '@testing-library/react'
+import type { Root } from 'react-dom/client'
+import { afterEach, beforeEach, describe, it, expect, vi, type MockInstance } from 'vitest'
+import fixtures from './data/fixtures.json'
+import { demoRoutes } from './router'
+import { hydratePage, renderPage, useFakeFetchTimers } from './test/ssr'
+
+// Newest first, like the data sources page them
+function postTitles(userId: number) {
+  return fixtures.posts
+    .filter((post) => post.userId === userId)
+    .sort((a, b) => b.id - a.id)
+    .map((post) => post.title)
+}
+
+describe('SSR and hydration', () => {
+  let root: Root | undefined
+  let consoleError: MockInstance<typeof console.error>
+
+  async function hydrate(url: string) {
+    const page = await hydratePage(url)
+    root = page.root
+    return page
+  }
+
+  beforeEach(() => {
+    useFakeFetchTimers()
+    // Not implemented in jsdom (ActivityDemo's video)
+    vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {})
+    // React reports hydration mismatches and act() warnings here
+    consoleError = vi.spyOn(console, 'error')
+  })
+
+  afterEach(() => {
+    act(() => root?.unmount())
+    root = undefined
+    const errors = [...consoleError.mock.calls]
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    localStorage.clear()
+    expect(errors).toEqual([])
+  })
+
+  it.each(demoRoutes.map(({ demo, path }) => [demo, path]))(
+    'hydrates the %s demo without recoverable errors',
+    async (_demo, path) => {
+      const { html } = await renderPage(path)
+      // The demo's chunk was preloaded: it's in the HTML, not its fallback
+      expect(html).not.toContain('Loading demo...')
+
+      const { reports } = await hydrate(path)
+      expect(reports).toEqual([])
+    }
+  )
+
+  describe('Suspense demo', () => {
+    it('streams the fetched data instead of the fallbacks', async () => {
+      const { html } = await renderPage('/suspense')
+
+      expect(html).toContain('Ada Lovelace')
+      expect(html).toContain(postTitles(1)[0])
+      expect(html).not.toContain('Loading user...')
+      expect(html).not.toContain('Loading posts...')
+    })
+
+    it('switches users in a transition and loads more posts', async () => {
+      const { advance } = await hydrate('/suspense')
+      // Seeded from the payload: nothing is fetched again
+      expect(screen.getByRole('heading', { name: 'Ada Lovelace' })).toBeInTheDocument()
+
+      // The transition suspends on the new user, which only an awaited act()
+      // allows (user-event's is synchronous)
+      await act(async () => {
+        fireEvent.change(screen.getByRole('combobox', { name: 'User' }), { target: { value: '3' } })
+      })
+      expect(screen.getByRole('heading', { name: 'Ada Lovelace' })).toBeInTheDocument()
+      expect(screen.getByText('Updating...')).toBeInTheDocument()
+
+      // The user takes 1.5s, the posts (started at the same time) 2s
+      await advance(2000)
+      expect(screen.getByRole('heading', { name: 'Grace Hopper' })).toBeInTheDocument()
+      expect(screen.getByText(postTitles(3)[0])).toBeInTheDocument()
+      expect(screen.queryByText(postTitles(3)[5])).toBeNull()
+
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Load more' }))
+      })
+      await advance(2000)
+      expect(screen.getByText(postTitles(3)[5])).toBeInTheDocument()
+    })
+  })
+
+  describe('Activity demo', () => {
+    it('keeps a hidden tab’s state', async () => {
+      const { user } = await hydrate('/activity')
+
+      await user.click(screen.getByRole('button', { name: 'Comment Draft' }))
+      await user.type(screen.getByPlaceholderText('Write a comment...'), 'Hello')
+      await user.click(screen.getByRole('button', { name: 'Other Tab' }))
+      await user.click(screen.getByRole('button', { name: 'Comment Draft' }))
+
+      expect(screen.getByPlaceholderText('Write a comment...')).toHaveValue('Hello')
+    })
+  })
+
+  describe('View Transitions demo', () => {
+    it('opens an item and goes back to the gallery', async () => {
+      const { user } = await hydrate('/view-transitions')
+
+      await user.click(screen.getByRole('button', { name: /Mountain Vista/ }))
+      expect(screen.getByRole('heading', { name: 'Mountain Vista' })).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: '← Back to Gallery' }))
+      expect(screen.getByRole('heading', { name: 'Gallery' })).toBeInTheDocument()
+    })
+  })
+
+  describe('Server Components demo', () => {
+    it('shows an order optimistically until the Server Action confirms it', async () => {
+      const { user, advance } = await hydrate('/server-components')
+
+      await user.clear(screen.getByRole('textbox', { name: 'Product name' }))
+      await user.type(screen.getByRole('textbox', { name: 'Product name' }), 'Keyboard')
+      await user.clear(screen.getByRole('spinbutton', { name: 'Quantity' }))
+      await user.type(screen.getByRole('spinbutton', { name: 'Quantity' }), '2')
+      await user.click(screen.getByRole('button', { name: 'Submit Order (Server Action)' }))
+
+      const orders = screen.getByRole('list', { name: 'Your orders' })
+      expect(within(orders).getByText(/Keyboard/)).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: 'Processing...' })).toBeDisabled()
+
+      // The action takes 1s on the "server"
+      await advance(1000)
+      expect(screen.getByText(/created successfully! \(2 × Keyboard\)/)).toBeInTheDocument()
+      expect(within(orders).getByText(/Keyboard/)).toBeInTheDocument()
+    })
+
+    it('rolls the optimistic order back when the server answers with an error page', async () => {
+      const { user } = await hydrate('/server-components')
+      vi.stubGlobal('fetch', async () =>
+        new Response('<h1>Bad Gateway</h1>', { status: 502, headers: { 'Content-Type': 'text/html' } })
+      )
+
+      await user.click(screen.getByRole('button', { name: 'Submit Order (Server Action)' }))
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(
+        'Server action "submitOrder" failed (502). Your order was not placed.'
+      )
+      expect(screen.queryByRole('list', { name: 'Your orders' })).not.toBeInTheDocument()
+      expect(screen.getByRole('textbox', { name: 'Product name' })).toHaveValue('Laptop')
+    })
+  })
+})
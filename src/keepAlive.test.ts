@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { defaultKeepAliveSettings, mountedDemos, touchDemo } from './keepAlive'
+
+const enabled = { ...defaultKeepAliveSettings, enabled: true }
+
+describe('keep alive', () => {
+  it('keeps demos in most-recently-used order', () => {
+    let recent = touchDemo([], 'suspense')
+    recent = touchDemo(recent, 'activity')
+    recent = touchDemo(recent, 'suspense')
+    expect(recent).toEqual(['suspense', 'activity'])
+    expect(touchDemo(recent, 'suspense')).toBe(recent)
+  })
+
+  it('mounts only the active demo unless enabled', () => {
+    const recent = ['activity', 'suspense', 'viewtransitions'] as const
+    expect(mountedDemos([...recent], 'activity', defaultKeepAliveSettings)).toEqual(['activity'])
+    expect(mountedDemos([...recent], null, defaultKeepAliveSettings)).toEqual([])
+  })
+
+  it('evicts the least recently used hidden demos', () => {
+    const recent = touchDemo(touchDemo(touchDemo([], 'viewtransitions'), 'suspense'), 'activity')
+    expect(mountedDemos(recent, 'activity', enabled)).toEqual(['activity', 'suspense', 'viewtransitions'])
+    expect(mountedDemos(recent, 'activity', { ...enabled, maxHidden: 1 })).toEqual(['activity', 'suspense'])
+    // The not-found page hides every demo
+    expect(mountedDemos(recent, null, { ...enabled, maxHidden: 1 })).toEqual(['activity'])
+  })
+
+  it('fills free slots with unvisited demos when pre-rendering', () => {
+    const settings = { ...enabled, prerender: true, maxHidden: 3 }
+    expect(mountedDemos(['activity'], 'activity', settings)).toEqual([
+      'activity',
+      'suspense',
+      'viewtransitions',
+      'servercomponents',
+    ])
+    expect(mountedDemos(['activity', 'servercomponents'], 'activity', { ...settings, maxHidden: 2 })).toEqual([
+      'activity',
+      'servercomponents',
+      'suspense',
+    ])
+  })
+})
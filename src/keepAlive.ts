@@ -0,0 +1,155 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * "Keep alive" for the demo tabs: with the setting on, App wraps every
+ * demo in <Activity>, and demos you leave are hidden instead of unmounted,
+ * so their state is still there when you come back.
+ *
+ * Hidden demos cost memory (their DOM and fibers stay around) and render
+ * time (they re-render at low priority), so only the `maxHidden` most
+ * recently used ones are kept; older ones are unmounted. With `prerender`,
+ * free slots are filled with demos not visited yet, which Activity renders
+ * in the background so they show up instantly.
+ *
+ * Server execution (entry-server.tsx):
+ * - Settings are stored in localStorage, so the server always renders the
+ *   default: only the active demo
+ *
+ * Client execution (main.tsx):
+ * - Hydrates the same single demo, then applies the saved settings
+ * - renderStats collects what each demo costs, for KeepAlivePanel
+ */
+
+import { usePersistentState } from "./storage";
+import { demoRoutes, type Demo } from "./router";
+
+export interface KeepAliveSettings {
+  enabled: boolean;
+  /** How many hidden demos stay mounted. */
+  maxHidden: number;
+  /** Fill free slots with demos that weren't visited yet. */
+  prerender: boolean;
+}
+
+export const defaultKeepAliveSettings: KeepAliveSettings = {
+  enabled: false,
+  maxHidden: 2,
+  prerender: false,
+};
+
+function isKeepAliveSettings(data: unknown): data is KeepAliveSettings {
+  const settings = data as KeepAliveSettings;
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof settings.enabled === "boolean" &&
+    Number.isInteger(settings.maxHidden) &&
+    settings.maxHidden >= 0 &&
+    typeof settings.prerender === "boolean"
+  );
+}
+
+export function useKeepAliveSettings() {
+  return usePersistentState({
+    key: "react-19-demo:keep-alive",
+    version: 1,
+    defaultValue: defaultKeepAliveSettings,
+    validate: isKeepAliveSettings,
+  });
+}
+
+/**
+ * Moves `demo` to the front of the most-recently-used list.
+ */
+export function touchDemo(recent: Demo[], demo: Demo): Demo[] {
+  return recent[0] === demo ? recent : [demo, ...recent.filter((d) => d !== demo)];
+}
+
+/**
+ * The demos to keep mounted: the active one, plus up to `maxHidden` hidden
+ * ones, most recently used first.
+ */
+export function mountedDemos(
+  recent: Demo[],
+  active: Demo | null,
+  { enabled, maxHidden, prerender }: KeepAliveSettings
+): Demo[] {
+  const visible = active ? [active] : [];
+  if (!enabled) return visible;
+
+  const hidden = recent.filter((demo) => demo !== active);
+  if (prerender) {
+    for (const { demo } of demoRoutes) {
+      if (demo !== active && !hidden.includes(demo)) hidden.push(demo);
+    }
+  }
+  return [...visible, ...hidden.slice(0, maxHidden)];
+}
+
+// ---------------------------------------------------------------------------
+// Render cost, as reported by <Profiler> (client only)
+// ---------------------------------------------------------------------------
+
+export interface DemoCost {
+  /** Commits that re-rendered something in the demo. */
+  renders: number;
+  /** Total time React spent rendering the demo. */
+  renderMs: number;
+  /** Elements in the demo's DOM, visible or not. */
+  domNodes: number;
+}
+
+export type RenderStats = Partial<Record<Demo, DemoCost>>;
+
+function createRenderStats() {
+  let stats: RenderStats = {};
+  const timings: Partial<Record<Demo, { renders: number; renderMs: number }>> = {};
+  const listeners = new Set<() => void>();
+  let scheduled = false;
+
+  // Counting DOM nodes and notifying happen once per commit at most, after
+  // React has finished it: onRender is called during the commit
+  function flush() {
+    scheduled = false;
+    const next: RenderStats = {};
+    for (const { demo } of demoRoutes) {
+      const element = document.querySelector(`[data-demo="${demo}"]`);
+      if (!element) continue;
+      const { renders = 0, renderMs = 0 } = timings[demo] ?? {};
+      next[demo] = { renders, renderMs, domNodes: element.getElementsByTagName("*").length };
+    }
+    stats = next;
+    listeners.forEach((listener) => listener());
+  }
+
+  function refresh() {
+    if (scheduled) return;
+    scheduled = true;
+    queueMicrotask(flush);
+  }
+
+  return {
+    /** A <Profiler> onRender callback; the profiler id is the demo. */
+    record(id: string, _phase: string, actualDuration: number) {
+      const timing = (timings[id as Demo] ??= { renders: 0, renderMs: 0 });
+      timing.renders++;
+      timing.renderMs += actualDuration;
+      refresh();
+    },
+    /** Re-measures, e.g. after a demo was unmounted. */
+    refresh,
+    reset() {
+      for (const demo of Object.keys(timings)) delete timings[demo as Demo];
+      refresh();
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => stats,
+  };
+}
+
+export const renderStats = createRenderStats();
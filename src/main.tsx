@@ -8,8 +8,13 @@
  *
  * 1. HYDRATION MODE (with SSR):
  *    - Server sends HTML with content already rendered
+ *    - Data the server fetched arrives as a JSON payload and is seeded
+ *      into the cache first, so hydration doesn't fetch it again
+ *    - The same payload carries the result of a no-JS Server Action post
  *    - This script attaches React event listeners to existing HTML
  *    - Makes the static HTML interactive without re-rendering
+ *    - Mismatches between the HTML and the first client render are
+ *      reported (see diagnostics.ts)
  *    - Used when running with Express server (npm run dev / npm run preview)
  *
  * 2. CLIENT-SIDE RENDERING MODE (no SSR):
@@ -24,28 +29,89 @@ import { StrictMode } from 'react'
 import { hydrateRoot, createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { createDataCache } from './data/cache'
+import { DataCacheContext, DataSourceContext, TimelineContext } from './data/context'
+import { createFixtureSource } from './data/fixtureSource'
+import { createRestSource } from './data/restSource'
+import { demoLatency, withFaults } from './data/source'
+import { createTimeline } from './data/timeline'
+import { readHydrationData } from './data/hydration'
+import { preloadDemo } from './demos'
+import { rootDiagnostics } from './diagnostics'
+import { matchRoute, stripBase } from './router'
 
 const rootElement = document.getElementById('root')!
 
+// One cache for the whole page; entries are re-fetched after 5 minutes
+const dataCache = createDataCache({ ttl: 5 * 60 * 1000 })
+
+// Records the page's requests for the Suspense demo's timeline
+const timeline = createTimeline({ side: 'client' })
+
+// Where the demos' data comes from: the server's REST API, or in the
+// static build (which has no server) the fixtures bundled with the app
+const dataSource =
+  import.meta.env.VITE_DATA_SOURCE === 'fixtures'
+    ? withFaults(createFixtureSource(), { latency: demoLatency })
+    : createRestSource()
+
+// Errors React recovers from (hydration mismatches) or that error
+// boundaries catch: an overlay in development, reported to the server in
+// production
+const diagnostics = rootDiagnostics()
+
 // Check if the app was server-rendered (has actual element content, not just comments)
 const hasServerContent = rootElement.children.length > 0
 
 if (hasServerContent) {
+  // Seed BEFORE hydrating: components must find the server's data already
+  // resolved, otherwise they'd suspend and render different HTML
+  const { data, formState, timeline: serverEvents } = readHydrationData()
+  dataCache.seed(data)
+  timeline.seed(serverEvents)
+
   // HYDRATION: Attach React to server-rendered HTML
   // The HTML is already visible, we're just adding interactivity
   // Does NOT re-render the DOM, just attaches event handlers
-  hydrateRoot(
-    rootElement,
-    <StrictMode>
-      <App />
-    </StrictMode>
-  )
+  const hydrate = () =>
+    hydrateRoot(
+      rootElement,
+      <StrictMode>
+        <DataSourceContext value={dataSource}>
+          <DataCacheContext value={dataCache}>
+            <TimelineContext value={timeline}>
+              <App />
+            </TimelineContext>
+          </DataCacheContext>
+        </DataSourceContext>
+      </StrictMode>,
+      // Result of a Server Action form posted before JavaScript loaded
+      { formState, ...diagnostics }
+    )
+
+  // Same for the code: the server-rendered demo's chunk (already requested
+  // by a <link rel="modulepreload"> in the head) is loaded before hydration,
+  // so React never sees it suspend. Not a top-level await: the demo chunks
+  // import this module, which would then wait for itself
+  const route = matchRoute(stripBase(window.location.pathname))
+  if (route.type === 'not-found') {
+    hydrate()
+  } else {
+    // Hydrate even if the chunk failed to load: lazy() tries again
+    preloadDemo(route.demo).then(hydrate, hydrate)
+  }
 } else {
   // CLIENT-SIDE RENDERING: Render the entire app from scratch
   // Used when no SSR (GitHub Pages static hosting)
-  createRoot(rootElement).render(
+  createRoot(rootElement, diagnostics).render(
     <StrictMode>
-      <App />
+      <DataSourceContext value={dataSource}>
+        <DataCacheContext value={dataCache}>
+          <TimelineContext value={timeline}>
+            <App />
+          </TimelineContext>
+        </DataCacheContext>
+      </DataSourceContext>
     </StrictMode>
   )
 }
@@ -0,0 +1,24 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Records which source modules a server render used, so the server can
+ * tell the browser to fetch their JS/CSS chunks from the <head>.
+ *
+ * - Server: entry-server.tsx provides a fresh Set per render() call and
+ *   maps the collected ids through Vite's ssr-manifest.json (see
+ *   server/preload.ts)
+ * - Client: there is no provider, so collecting is a no-op
+ */
+
+import { createContext, useContext } from "react";
+
+export const ModuleCollectorContext = createContext<Set<string> | null>(null);
+
+/**
+ * Marks `moduleId` as rendered. Ids are root-relative source paths, the
+ * keys of ssr-manifest.json: "src/demos/SuspenseDemo.tsx".
+ */
+export function useCollectModule(moduleId: string | null) {
+  const modules = useContext(ModuleCollectorContext);
+  if (moduleId) modules?.add(moduleId);
+}
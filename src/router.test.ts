@@ -0,0 +1,59 @@
+import { act, renderHook } from '@testing-library/react'
+import { afterEach, describe, it, expect } from 'vitest'
+import { matchRoute, navigate, stripBase, usePathname, withBase } from './router'
+
+describe('matchRoute()', () => {
+  it('matches demo paths, ignoring trailing slashes, queries and hashes', () => {
+    expect(matchRoute('/activity')).toEqual({ type: 'demo', demo: 'activity' })
+    expect(matchRoute('/view-transitions/?from=nav#top')).toEqual({ type: 'demo', demo: 'viewtransitions' })
+    expect(matchRoute('server-components')).toEqual({ type: 'demo', demo: 'servercomponents' })
+  })
+
+  it('redirects the index to the default demo', () => {
+    expect(matchRoute('/')).toEqual({ type: 'redirect', demo: 'suspense', to: '/suspense' })
+    expect(matchRoute('/?utm=1')).toEqual({ type: 'redirect', demo: 'suspense', to: '/suspense' })
+  })
+
+  it('reports unknown paths as not found', () => {
+    expect(matchRoute('/nope')).toEqual({ type: 'not-found' })
+    expect(matchRoute('/suspense/extra')).toEqual({ type: 'not-found' })
+  })
+})
+
+describe('stripBase() and withBase()', () => {
+  it('only strips the base as a leading path segment', () => {
+    expect(stripBase('/demo/activity', '/demo/')).toBe('/activity')
+    expect(stripBase('/demo/', '/demo/')).toBe('/')
+    // The bare base is the index too
+    expect(stripBase('/demo', '/demo/')).toBe('/')
+    expect(stripBase('/demolition', '/demo/')).toBe('/demolition')
+    expect(stripBase('/other/demo/activity', '/demo/')).toBe('/other/demo/activity')
+    expect(stripBase('/activity', '/')).toBe('/activity')
+  })
+
+  it('adds the base to app-relative paths', () => {
+    expect(withBase('/activity', '/demo/')).toBe('/demo/activity')
+    expect(withBase('/activity', '/')).toBe('/activity')
+    expect(stripBase(withBase('/activity', '/demo/'), '/demo/')).toBe('/activity')
+  })
+})
+
+describe('navigate()', () => {
+  afterEach(() => window.history.replaceState(null, '', '/'))
+
+  it('updates the URL and every usePathname()', () => {
+    window.history.replaceState(null, '', '/suspense')
+    const { result } = renderHook(() => usePathname())
+    const length = window.history.length
+
+    act(() => navigate('/activity'))
+    expect(result.current).toBe('/activity')
+    expect(window.location.pathname).toBe('/activity')
+    expect(window.history.length).toBe(length + 1)
+
+    // Replacements (redirects) don't add a history entry
+    act(() => navigate('/view-transitions', { replace: true }))
+    expect(result.current).toBe('/view-transitions')
+    expect(window.history.length).toBe(length + 1)
+  })
+})
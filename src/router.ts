@@ -0,0 +1,187 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * A deliberately tiny, typed router for the demo tabs.
+ *
+ * Server execution (entry-server.tsx / server/app.ts):
+ * - matchRoute() decides which demo to render for the request URL
+ * - Unknown paths render the NotFound page with a real 404 status
+ * - The index path is answered with an HTTP redirect
+ *
+ * Client execution (main.tsx):
+ * - usePathname() reads window.location and re-renders on back/forward
+ * - navigate() updates the URL through the History API
+ * - Tab switches and back/forward are animated with a view transition
+ *
+ * All paths handled here are app-relative ("/suspense"). The Vite BASE_URL
+ * prefix (e.g. "/react-19-demo/" on GitHub Pages) is added and removed at the
+ * edges with withBase() and stripBase().
+ */
+
+import { useSyncExternalStore } from "react";
+import { startViewTransition } from "./transitions";
+
+export type Demo = "suspense" | "activity" | "viewtransitions" | "servercomponents";
+
+export interface DemoRoute {
+  demo: Demo;
+  path: string;
+  label: string;
+  /** Page title and meta description (see head.ts). */
+  title: string;
+  description: string;
+}
+
+// Order here is the order of the tabs in the navigation bar
+export const demoRoutes: DemoRoute[] = [
+  {
+    demo: "suspense",
+    path: "/suspense",
+    label: "Suspense",
+    title: "Suspense and use()",
+    description:
+      "Stream server-rendered data with Suspense boundaries and React 19's use() hook, with per-request caching and error boundaries.",
+  },
+  {
+    demo: "activity",
+    path: "/activity",
+    label: "Activity",
+    title: "Activity",
+    description:
+      "Hide parts of the UI with React 19.2's <Activity> while keeping their state, and pre-render content in the background.",
+  },
+  {
+    demo: "viewtransitions",
+    path: "/view-transitions",
+    label: "View Transitions",
+    title: "View Transitions",
+    description:
+      "Animate UI updates with the browser's View Transitions API, driven by React state changes.",
+  },
+  {
+    demo: "servercomponents",
+    path: "/server-components",
+    label: "Server Components",
+    title: "Server Components and Actions",
+    description:
+      "React Server Components streamed as an RSC payload, and Server Actions that work with and without JavaScript.",
+  },
+];
+
+export const defaultDemo: Demo = "suspense";
+
+export type RouteMatch =
+  | { type: "demo"; demo: Demo }
+  | { type: "redirect"; demo: Demo; to: string }
+  | { type: "not-found" };
+
+export function routeForDemo(demo: Demo): DemoRoute {
+  return demoRoutes.find((route) => route.demo === demo)!;
+}
+
+export function pathForDemo(demo: Demo): string {
+  return routeForDemo(demo).path;
+}
+
+/**
+ * Resolves an app-relative URL (query string and hash are ignored).
+ */
+export function matchRoute(url: string): RouteMatch {
+  const pathname = normalizePath(url);
+
+  if (pathname === "/") {
+    return { type: "redirect", demo: defaultDemo, to: pathForDemo(defaultDemo) };
+  }
+
+  const route = demoRoutes.find((r) => r.path === pathname);
+  return route ? { type: "demo", demo: route.demo } : { type: "not-found" };
+}
+
+function normalizePath(url: string): string {
+  const pathname = url.split(/[?#]/)[0];
+  const withSlash = pathname.startsWith("/") ? pathname : `/${pathname}`;
+  // Treat "/activity/" the same as "/activity"
+  return withSlash.length > 1 ? withSlash.replace(/\/+$/, "") : withSlash;
+}
+
+/**
+ * Removes the deployment base from a browser pathname: "/repo/activity" -> "/activity"
+ */
+export function stripBase(pathname: string, base = import.meta.env.BASE_URL): string {
+  const prefix = base.replace(/\/+$/, "");
+  if (prefix && (pathname === prefix || pathname.startsWith(`${prefix}/`))) {
+    return pathname.slice(prefix.length) || "/";
+  }
+  return pathname;
+}
+
+/**
+ * Adds the deployment base to an app-relative path: "/activity" -> "/repo/activity"
+ */
+export function withBase(path: string, base = import.meta.env.BASE_URL): string {
+  return `${base.replace(/\/+$/, "")}${path}`;
+}
+
+// Subscribers are notified on pushState/replaceState (which fire no event)
+// as well as on the browser's popstate (back/forward)
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+// useSyncExternalStore re-renders synchronously, which is exactly what the
+// manual view transition needs (startTransition would not help here)
+function onPopState() {
+  startViewTransition(notify);
+}
+
+function subscribe(listener: () => void) {
+  if (listeners.size === 0) window.addEventListener("popstate", onPopState);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener("popstate", onPopState);
+  };
+}
+
+/**
+ * Goes to `path`. New history entries are animated with a view
+ * transition; replacements (e.g. redirects) are not, unless asked to.
+ */
+export function navigate(
+  path: string,
+  {
+    replace = false,
+    transition = !replace,
+  }: { replace?: boolean; transition?: boolean } = {}
+) {
+  const url = withBase(path);
+  if (replace) {
+    window.history.replaceState(null, "", url);
+  } else {
+    window.history.pushState(null, "", url);
+  }
+  if (transition) {
+    startViewTransition(notify);
+  } else {
+    notify();
+  }
+}
+
+function getBrowserPathname() {
+  return stripBase(window.location.pathname);
+}
+
+/**
+ * Returns the current app-relative pathname.
+ *
+ * - Server: there is no window, so the request URL passed in is used
+ * - Client: reads window.location and re-renders on navigation. During
+ *   hydration this is the same URL the server rendered, so no mismatch
+ */
+export function usePathname(serverUrl?: string): string {
+  return useSyncExternalStore(subscribe, getBrowserPathname, () =>
+    serverUrl ?? getBrowserPathname()
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * SERVER COMPONENT - runs ONLY inside the RSC renderer (entry-rsc.tsx)
+ *
+ * - An async component: it awaits the database call directly
+ * - Reads server-only fields, and nothing about them is rendered
+ * - Its code is NOT in the client bundle; the browser receives the
+ *   rendered result as an RSC payload from GET {BASE}rsc
+ * - Client Components (ClientCounter) are rendered by reference: the
+ *   browser fills them in with its own copy of their code
+ */
+
+import { fetchProducts } from '../server/products'
+import { ClientCounter } from './client/ClientCounter'
+
+export async function ServerProductList() {
+  const products = await fetchProducts()
+
+  return (
+    <div className="server-component-box">
+      <h3>Server Component</h3>
+      <p className="info-text">
+        This list was rendered on the server and streamed as an RSC payload.
+        No JavaScript for this component was sent to the client!
+      </p>
+
+      <div className="products-grid">
+        {products.map((product) => (
+          <div key={product.id} className="product-card">
+            <h4>{product.name}</h4>
+            <p className="price">${product.price}</p>
+            {/* The secret itself never leaves the server, only this note */}
+            <p className="server-secret">
+              🔒 {product.serverOnly.length}-character server-only field read on
+              the server, never sent
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* A Client Component inside a Server Component */}
+      <ClientCounter productName={products[0].name} />
+    </div>
+  )
+}
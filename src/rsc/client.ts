@@ -0,0 +1,43 @@
+/**
+ * CLIENT-SIDE ONLY - RSC payload consumer
+ *
+ * Fetches GET {BASE}rsc and turns the Flight payload back into React
+ * elements that can be rendered like any other (e.g. with use()).
+ *
+ * The Flight client was written for webpack: it loads Client Components
+ * through the __webpack_require__ / __webpack_chunk_load__ globals. Here they
+ * look modules up in a map of src/rsc/client/, keyed by the same
+ * "/src/rsc/client/X.tsx" ids that useClientReferences() in vite.config.ts
+ * writes into the payload.
+ *
+ * NEVER runs on the server.
+ */
+
+import type { ReactNode } from 'react'
+import { withBase } from '../router'
+
+declare global {
+  var __webpack_require__: ((id: string) => unknown) & { u?: unknown }
+  var __webpack_chunk_load__: (chunkId: string) => Promise<unknown>
+}
+
+// Client Components are bundled normally; this only makes them addressable
+const clientModules = import.meta.glob('/src/rsc/client/*.tsx', { eager: true })
+
+function installModuleLoader() {
+  globalThis.__webpack_require__ ??= (id: string) => {
+    const module = clientModules[id]
+    if (!module) throw new Error(`Unknown client component module "${id}"`)
+    return module
+  }
+  // Every client module is already loaded, there are no chunks to fetch
+  globalThis.__webpack_chunk_load__ ??= () => Promise.resolve()
+}
+
+export async function fetchRscPayload(): Promise<ReactNode> {
+  // The globals must exist BEFORE the Flight client module is evaluated,
+  // and loading it lazily keeps it out of the initial bundle
+  installModuleLoader()
+  const { createFromFetch } = await import('react-server-dom-webpack/client.browser')
+  return createFromFetch<ReactNode>(fetch(withBase('/rsc')))
+}
@@ -0,0 +1,35 @@
+'use client'
+
+/**
+ * CLIENT COMPONENT ('use client')
+ *
+ * The directive above is real: when the RSC bundle is built, the
+ * useClientReferences() plugin in vite.config.ts replaces this module with
+ * a reference ("render src/rsc/client/ClientCounter.tsx#ClientCounter here").
+ * The RSC payload carries only that reference and the props; the browser
+ * loads this code from the client bundle (see src/rsc/client.ts) and renders it.
+ *
+ * Only files in src/rsc/client/ can be referenced from Server Components.
+ */
+
+import { useState } from 'react'
+
+export function ClientCounter({ productName }: { productName: string }) {
+  // useState with interactivity: only possible in a Client Component
+  const [count, setCount] = useState(0)
+
+  return (
+    <div className="client-component-box">
+      <h4>Client Component: {productName}</h4>
+      <p className="info-text">
+        This component is marked with 'use client'. It includes JavaScript in
+        the client bundle for interactivity.
+      </p>
+      <div className="counter-controls">
+        <button onClick={() => setCount(count - 1)}>-</button>
+        <span className="count">Quantity: {count}</span>
+        <button onClick={() => setCount(count + 1)}>+</button>
+      </div>
+    </div>
+  )
+}
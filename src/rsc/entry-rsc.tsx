@@ -0,0 +1,39 @@
+/**
+ * REACT SERVER COMPONENTS ENTRY POINT
+ *
+ * This file runs ONLY on the server (Node.js), in its own bundle:
+ * `vite build --mode rsc` resolves React with the "react-server" export
+ * condition, which is what makes async components and the Flight renderer
+ * work, and what lets 'use client' modules turn into references.
+ *
+ * Flow:
+ * 1. Browser requests GET {BASE}rsc (see src/rsc/client.ts)
+ * 2. src/server/app.ts calls renderRsc()
+ * 3. Server Components execute HERE and are serialized to the RSC "Flight"
+ *    payload: a stream of rendered elements plus references to Client
+ *    Components (never their code, never the server-only data)
+ * 4. The browser turns the payload back into React elements
+ *
+ * NEVER runs in the browser.
+ */
+
+import {
+  renderToPipeableStream,
+  type ClientManifest,
+  type RenderToPipeableStreamOptions,
+} from 'react-server-dom-webpack/server'
+import { ServerProductList } from './ServerProductList'
+
+// A bundler would generate this from the 'use client' modules it found.
+// Our references are already named "<module id>#<export>", and the client
+// loads modules by that same id without chunks, so the manifest is derived.
+const clientManifest = new Proxy({} as ClientManifest, {
+  get(_target, key: string) {
+    const [id, name] = key.split('#')
+    return { id, chunks: [], name }
+  },
+})
+
+export function renderRsc(options?: RenderToPipeableStreamOptions) {
+  return renderToPipeableStream(<ServerProductList />, clientManifest, options)
+}
@@ -0,0 +1,39 @@
+// react-server-dom-webpack ships without type definitions.
+// Only the parts used in src/rsc/ and vite.config.ts are declared here.
+
+declare module 'react-server-dom-webpack/server' {
+  import type { ReactNode } from 'react'
+
+  export type ClientManifest = Record<
+    string,
+    { id: string; chunks: string[]; name: string }
+  >
+
+  export interface RenderToPipeableStreamOptions {
+    onError?: (error: unknown) => string | void
+    identifierPrefix?: string
+  }
+
+  export interface PipeableStream {
+    pipe<Writable>(destination: Writable): Writable
+    abort(reason?: unknown): void
+  }
+
+  export function renderToPipeableStream(
+    model: ReactNode,
+    webpackMap: ClientManifest,
+    options?: RenderToPipeableStreamOptions
+  ): PipeableStream
+
+  export function registerClientReference<T>(
+    proxyImplementation: T,
+    id: string,
+    exportName: string
+  ): T
+}
+
+declare module 'react-server-dom-webpack/client.browser' {
+  export function createFromFetch<T>(
+    promiseForResponse: Promise<Response>
+  ): Promise<T>
+}
@@ -0,0 +1,99 @@
+// @vitest-environment node
+/// <reference types="node" />
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { Writable } from 'node:stream'
+import { pathToFileURL } from 'node:url'
+import { build } from 'vite'
+import { afterAll, beforeAll, describe, it, expect } from 'vitest'
+import { render } from '../entry-server'
+import { fetchProducts } from '../server/products'
+
+async function readAll(dir: string): Promise<string> {
+  const files = await fs.readdir(dir, { recursive: true, withFileTypes: true })
+  const contents = await Promise.all(
+    files
+      .filter((file) => file.isFile())
+      .map((file) => fs.readFile(path.join(file.parentPath, file.name), 'utf-8'))
+  )
+  return contents.join('\n')
+}
+
+function collect(pipe: (destination: Writable) => unknown) {
+  return new Promise<string>((resolve) => {
+    let output = ''
+    pipe(
+      new Writable({
+        write(chunk, _encoding, callback) {
+          output += chunk
+          callback()
+        },
+        final(callback) {
+          resolve(output)
+          callback()
+        },
+      })
+    )
+  })
+}
+
+describe('React Server Components', () => {
+  let secrets: string[]
+  let distDir: string
+  let clientDir: string
+  let rscDir: string
+
+  // Same builds as `pnpm build:client` and `pnpm build:rsc`, in a temporary
+  // directory (dist/ may hold a build someone wants to keep)
+  beforeAll(async () => {
+    secrets = (await fetchProducts()).map((product) => product.serverOnly)
+    distDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rsc-test-'))
+    clientDir = path.join(distDir, 'client')
+    rscDir = path.join(distDir, 'rsc')
+    await build({ logLevel: 'silent', build: { outDir: clientDir } })
+    await build({ mode: 'rsc', logLevel: 'silent', build: { outDir: rscDir } })
+  }, 60_000)
+
+  afterAll(async () => {
+    if (distDir) await fs.rm(distDir, { recursive: true, force: true })
+  })
+
+  it('renders Server Components to an RSC payload without server-only data', async () => {
+    const { renderRsc } = await import(
+      /* @vite-ignore */ pathToFileURL(path.join(rscDir, 'entry-rsc.js')).href
+    )
+    const payload = await collect(renderRsc().pipe)
+
+    expect(payload).toContain('Laptop')
+    // Client Components travel as references, not code
+    expect(payload).toContain('/src/rsc/client/ClientCounter.tsx')
+    for (const secret of secrets) {
+      expect(payload).not.toContain(secret)
+    }
+  })
+
+  it('keeps server-only data out of the client bundle', async () => {
+    const bundle = await readAll(clientDir)
+
+    expect(bundle).toContain('Submit Order')
+    for (const secret of secrets) {
+      expect(bundle).not.toContain(secret)
+    }
+  })
+
+  it('keeps server-only data out of the server-rendered HTML', async () => {
+    const html = await new Promise<string>((resolve) => {
+      const stream = render('/server-components', undefined, {
+        onAllReady() {
+          resolve(collect(stream.pipe))
+        },
+      })
+    })
+
+    expect(html).toContain('React Server Components Demo')
+    for (const secret of secrets) {
+      expect(html).not.toContain(secret)
+    }
+  })
+})
@@ -0,0 +1,102 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { encodeArgs } from '../actions/codec'
+import { callAction, runFormAction, type OrderState } from './actions'
+
+const idle: OrderState = { orders: [], result: { status: 'idle' } }
+
+describe('server actions', () => {
+  it('decodes FormData arguments sent by the client reference', async () => {
+    vi.useFakeTimers()
+    const formData = new FormData()
+    formData.append('product', 'Mouse')
+    formData.append('quantity', '2')
+
+    const previous: OrderState = { orders: [{ id: 'a1', product: 'Laptop', quantity: 1 }], result: { status: 'idle' } }
+    const pending = callAction('submitOrder', encodeArgs([previous, formData]))
+    await vi.runAllTimersAsync()
+    vi.useRealTimers()
+
+    const { result } = (await pending) as { result: OrderState }
+    expect(result.result).toMatchObject({ status: 'success' })
+    expect(result.orders).toEqual([
+      { id: expect.any(String), product: 'Mouse', quantity: 2 },
+      previous.orders[0],
+    ])
+  })
+
+  it('returns undefined for unknown or inherited action names', async () => {
+    expect(await callAction('nope', '[]')).toBeUndefined()
+    expect(await callAction('toString', '[]')).toBeUndefined()
+  })
+
+  it('rejects arguments the action does not take', async () => {
+    const invalid = { error: 'Invalid arguments for action "submitOrder"' }
+    expect(await callAction('submitOrder', 'not json')).toEqual(invalid)
+    expect(await callAction('submitOrder', '{"0": 1}')).toEqual(invalid)
+    expect(await callAction('submitOrder', '[null,null]')).toEqual(invalid)
+    expect(await callAction('submitOrder', encodeArgs([idle]))).toEqual(invalid)
+
+    expect(await runFormAction({ $ACTION_ID_submitOrder: '', $ACTION_ARGS: 'not json', product: 'Mouse' })).toBeNull()
+  })
+
+  it('validates input on the server and reports errors per field', async () => {
+    const formData = new FormData()
+    formData.append('product', '')
+    formData.append('quantity', '0')
+
+    const response = await callAction('submitOrder', encodeArgs([idle, formData]))
+    expect(response).toEqual({
+      result: {
+        orders: [],
+        result: {
+          status: 'error',
+          message: expect.any(String),
+          fieldErrors: { product: expect.any(String), quantity: expect.any(String) },
+          values: { product: '', quantity: '0' },
+        },
+      },
+    })
+  })
+
+  it('keeps the order history when placing an order fails', async () => {
+    vi.useFakeTimers()
+    const formData = new FormData()
+    formData.append('product', 'Mouse')
+    formData.append('quantity', '2')
+    formData.append('simulateFailure', 'on')
+    const previous: OrderState = { orders: [{ id: 'a1', product: 'Laptop', quantity: 1 }], result: { status: 'idle' } }
+
+    const pending = callAction('submitOrder', encodeArgs([previous, formData]))
+    await vi.runAllTimersAsync()
+    vi.useRealTimers()
+
+    expect(await pending).toEqual({
+      result: {
+        orders: previous.orders,
+        result: expect.objectContaining({ status: 'error', values: { product: 'Mouse', quantity: '2' } }),
+      },
+    })
+  })
+
+  it('turns a no-JS form post into React form state', async () => {
+    const formState = await runFormAction({
+      $ACTION_ID_submitOrder: '',
+      $ACTION_ARGS: encodeArgs([idle]),
+      $ACTION_KEY: 'k1',
+      product: '',
+      quantity: '1',
+    })
+
+    expect(formState).toEqual([
+      expect.objectContaining({ result: expect.objectContaining({ status: 'error' }) }),
+      'k1',
+      'submitOrder',
+      0,
+    ])
+  })
+
+  it('ignores posts that are not action submissions', async () => {
+    expect(await runFormAction({ product: 'Laptop' })).toBeNull()
+  })
+})
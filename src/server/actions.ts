@@ -0,0 +1,190 @@
+/**
+ * SERVER-SIDE ONLY - Server Actions
+ *
+ * This is what a 'use server' module would be in a RSC framework: functions
+ * that run on the server and are called from the browser over HTTP.
+ *
+ * Only entry-server.tsx imports this module (so it lives in the server
+ * bundle). Client code imports TYPES from here and calls the actions
+ * through the references in src/actions/index.ts.
+ *
+ * NEVER runs in the browser.
+ */
+
+import type { ReactFormState } from "react-dom/client";
+import { ACTION_ARGS_FIELD, ACTION_ID_PREFIX } from "../actions/client";
+import { decodeArgs } from "../actions/codec";
+
+export interface Order {
+  id: string;
+  product: string;
+  quantity: number;
+}
+
+export type OrderField = "product" | "quantity";
+
+export type OrderResult =
+  | { status: "idle" }
+  | { status: "success"; orderId: string; message: string }
+  | {
+      status: "error";
+      message: string;
+      /** Validation messages, shown next to their inputs. */
+      fieldErrors?: Partial<Record<OrderField, string>>;
+      /** What was submitted, so the form can show it again. */
+      values?: Record<OrderField, string>;
+    };
+
+export interface OrderState {
+  /** Placed orders, newest first. */
+  orders: Order[];
+  result: OrderResult;
+}
+
+// The order history travels with the state, so it's capped
+const MAX_ORDERS = 10;
+
+function validateOrder(
+  product: string,
+  quantityField: string
+): Partial<Record<OrderField, string>> {
+  const quantity = Number(quantityField);
+  const errors: Partial<Record<OrderField, string>> = {};
+  if (!product) {
+    errors.product = "Please enter a product.";
+  } else if (product.length > 50) {
+    errors.product = "Product names are at most 50 characters.";
+  }
+  if (!quantityField || !Number.isInteger(quantity) || quantity < 1) {
+    errors.quantity = "Please order at least 1.";
+  } else if (quantity > 99) {
+    errors.quantity = "At most 99 per order.";
+  }
+  return errors;
+}
+
+export async function submitOrder(
+  previousState: OrderState,
+  formData: FormData
+): Promise<OrderState> {
+  const orders = Array.isArray(previousState?.orders) ? previousState.orders : [];
+  const values = {
+    product: String(formData.get("product") ?? "").trim(),
+    quantity: String(formData.get("quantity") ?? "").trim(),
+  };
+
+  // Never trust the client: these checks are the only ones (the form has
+  // noValidate), so the messages shown next to the fields come from here
+  const fieldErrors = validateOrder(values.product, values.quantity);
+  if (Object.keys(fieldErrors).length > 0) {
+    return {
+      orders,
+      result: { status: "error", message: "Please fix the highlighted fields.", fieldErrors, values },
+    };
+  }
+
+  // Simulate server-side processing
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  // Failure injection: a valid order the server still can't place
+  if (formData.get("simulateFailure") === "on") {
+    return {
+      orders,
+      result: { status: "error", message: "The order service is unavailable. Your order was not placed.", values },
+    };
+  }
+
+  const order: Order = {
+    id: Math.random().toString(36).substring(7),
+    product: values.product,
+    quantity: Number(values.quantity),
+  };
+  return {
+    orders: [order, ...orders].slice(0, MAX_ORDERS),
+    result: {
+      status: "success",
+      orderId: order.id,
+      message: `Order ${order.id} created successfully! (${order.quantity} × ${order.product})`,
+    },
+  };
+}
+
+const serverActions = { submitOrder };
+
+export type ServerActions = typeof serverActions;
+
+type AnyAction = (...args: unknown[]) => Promise<unknown>;
+
+// What each action's arguments must look like. Anyone can post to
+// __actions, so a call that doesn't fit never reaches the action
+const argumentChecks: Record<keyof ServerActions, (args: unknown[]) => boolean> = {
+  // submitOrder copes with any previous state, but needs the form
+  submitOrder: (args) => args.length === 2 && args[1] instanceof FormData,
+};
+
+function findAction(id: string): AnyAction | undefined {
+  return Object.hasOwn(serverActions, id)
+    ? (serverActions[id as keyof ServerActions] as AnyAction)
+    : undefined;
+}
+
+function acceptsArgs(id: string, args: unknown[] | null): args is unknown[] {
+  return args !== null && argumentChecks[id as keyof ServerActions](args);
+}
+
+/**
+ * JavaScript path: POST {BASE}__actions/:id with JSON-encoded arguments.
+ * Returns undefined when there's no such action, and an error (a 400 for
+ * app.ts) when the arguments aren't what the action takes.
+ */
+export async function callAction(
+  id: string,
+  encodedArgs: string
+): Promise<{ result: unknown } | { error: string } | undefined> {
+  const action = findAction(id);
+  if (!action) return undefined;
+  const args = decodeArgs(encodedArgs);
+  if (!acceptsArgs(id, args)) return { error: `Invalid arguments for action "${id}"` };
+  return { result: await action(...args) };
+}
+
+/**
+ * No-JavaScript path: a plain <form> posted back to the page.
+ *
+ * Runs the action named by the hidden fields and returns the form state
+ * React needs to render the page with the action's result
+ * (renderToPipeableStream and hydrateRoot both take it as `formState`).
+ * Returns null when the POST wasn't a Server Action submission (or one
+ * whose arguments don't fit the action: the page is rendered as is).
+ */
+export async function runFormAction(
+  fields: Record<string, string>
+): Promise<ReactFormState | null> {
+  const idField = Object.keys(fields).find((name) => name.startsWith(ACTION_ID_PREFIX));
+  const id = idField?.slice(ACTION_ID_PREFIX.length);
+  const action = id && findAction(id);
+  if (!id || !action) return null;
+
+  const boundArgs = decodeArgs(fields[ACTION_ARGS_FIELD] ?? "[]");
+  if (!boundArgs) return null;
+
+  // Everything except our bookkeeping fields is the user's form data
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (!name.startsWith("$ACTION_")) formData.append(name, value);
+  }
+
+  const args = [...boundArgs, formData];
+  if (!acceptsArgs(id, args)) return null;
+  const result = await action(...args);
+
+  // [state, key React uses to find the matching useActionState,
+  //  reference id, number of bound arguments]. The previous state that
+  //  useActionState bound isn't part of the reference's own signature
+  return [
+    result,
+    fields.$ACTION_KEY,
+    id,
+    boundArgs.length - 1,
+  ] as unknown as ReactFormState;
+}
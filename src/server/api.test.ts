@@ -0,0 +1,78 @@
+// @vitest-environment node
+/// <reference types="node" />
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, it, expect } from 'vitest'
+import { createFixtureSource } from '../data/fixtureSource'
+import type { DataSource } from '../data/source'
+import { handleApiRequest } from './api'
+import { createJsonFileSource } from './jsonSource'
+
+const source = createFixtureSource({
+  users: [{ id: 1, name: 'Ada', email: 'ada@example.com' }],
+  posts: [{ id: 7, userId: 1, title: 'First' }],
+})
+
+describe('REST API', () => {
+  it('routes requests to the data source', async () => {
+    expect(await handleApiRequest(source, '/users')).toEqual({
+      status: 200,
+      body: [{ id: 1, name: 'Ada', email: 'ada@example.com' }],
+    })
+    expect(await handleApiRequest(source, '/users/1?fresh=1')).toMatchObject({ status: 200, body: { name: 'Ada' } })
+    expect(await handleApiRequest(source, '/users/1/posts?page=1&pageSize=10')).toMatchObject({
+      status: 200,
+      body: { items: [{ id: 7 }], page: 1, pageSize: 10, total: 1, hasMore: false },
+    })
+  })
+
+  it('answers bad requests and data source errors with their status', async () => {
+    expect(await handleApiRequest(source, '/users/abc')).toMatchObject({ status: 400 })
+    expect(await handleApiRequest(source, '/comments')).toMatchObject({ status: 404 })
+    expect(await handleApiRequest(source, '/users/1/posts?page=0')).toMatchObject({ status: 400 })
+    expect(await handleApiRequest(source, '/users/1/posts?pageSize=500')).toMatchObject({ status: 400 })
+    expect(await handleApiRequest(source, '/users/2/posts')).toEqual({
+      status: 404,
+      body: { error: 'User 2 not found.' },
+    })
+  })
+
+  it('leaves unexpected errors to the caller', async () => {
+    const broken = { ...source, getUsers: () => Promise.reject(new Error('disk on fire')) } satisfies DataSource
+    await expect(handleApiRequest(broken, '/users')).rejects.toThrow('disk on fire')
+  })
+
+  it('serves a JSON file and picks up changes to it', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-test-'))
+    const file = path.join(dir, 'db.json')
+    try {
+      await fs.writeFile(file, JSON.stringify({ users: [{ id: 1, name: 'Ada', email: 'a@x' }], posts: [] }))
+      const jsonSource = createJsonFileSource(file)
+      expect(await jsonSource.getUser(1)).toMatchObject({ name: 'Ada' })
+
+      await fs.writeFile(file, JSON.stringify({ users: [{ id: 1, name: 'Grace', email: 'g@x' }], posts: [] }))
+      // mtime resolution can be coarse, make sure it changes
+      await fs.utimes(file, new Date(), new Date(Date.now() + 5000))
+      expect(await jsonSource.getUser(1)).toMatchObject({ name: 'Grace' })
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('pages posts from a JSON file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-test-'))
+    const file = path.join(dir, 'db.json')
+    try {
+      const posts = [1, 2, 3].map((id) => ({ id, userId: 1, title: `Post ${id}` }))
+      await fs.writeFile(file, JSON.stringify({ users: [{ id: 1, name: 'Ada', email: 'a@x' }], posts }))
+
+      expect(await handleApiRequest(createJsonFileSource(file), '/users/1/posts?page=2&pageSize=2')).toMatchObject({
+        status: 200,
+        body: { items: [{ id: 1 }], page: 2, pageSize: 2, total: 3, hasMore: false },
+      })
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * SERVER-SIDE ONLY - REST API over a DataSource
+ *
+ * app.ts answers GET {BASE}api/* with this; src/data/restSource.ts is
+ * the matching client. Routing is kept out of Express so it can be tested
+ * without a server:
+ *
+ *   GET /users              -> User[]
+ *   GET /users/:id          -> User
+ *   GET /users/:id/posts    -> Page<Post>  (?page=1&pageSize=5)
+ *
+ * Errors are JSON too ({ error }), with the DataSourceError's status.
+ * Anything else thrown is left to app.ts, which logs it.
+ *
+ * NEVER runs in the browser.
+ */
+
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  DataSourceError,
+  type DataSource,
+} from "../data/source";
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+export async function handleApiRequest(
+  source: DataSource,
+  path: string
+): Promise<ApiResponse> {
+  const [pathname, query = ""] = path.split("?");
+  const match = /^\/users(?:\/([^/]+)(\/posts)?)?\/?$/.exec(pathname);
+  if (!match) {
+    return { status: 404, body: { error: `No API route for ${path}` } };
+  }
+
+  const [, idParam, posts] = match;
+  const id = Number(idParam);
+  if (idParam !== undefined && !(Number.isInteger(id) && id > 0)) {
+    return { status: 400, body: { error: `Invalid user id "${idParam}"` } };
+  }
+
+  const params = new URLSearchParams(query);
+  const page = Number(params.get("page") ?? 1);
+  const pageSize = Number(params.get("pageSize") ?? DEFAULT_PAGE_SIZE);
+  if (!(Number.isInteger(page) && page > 0)) {
+    return { status: 400, body: { error: `Invalid page "${params.get("page")}"` } };
+  }
+  if (!(Number.isInteger(pageSize) && pageSize > 0 && pageSize <= MAX_PAGE_SIZE)) {
+    return { status: 400, body: { error: `pageSize must be between 1 and ${MAX_PAGE_SIZE}` } };
+  }
+
+  try {
+    const body =
+      idParam === undefined
+        ? await source.getUsers()
+        : posts
+          ? await source.getPosts(id, { page, pageSize })
+          : await source.getUser(id);
+    return { status: 200, body };
+  } catch (error) {
+    if (error instanceof DataSourceError) {
+      return { status: error.status, body: { error: error.message } };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,271 @@
+// @vitest-environment node
+/// <reference types="node" />
+import { once } from 'node:events'
+import fs from 'node:fs/promises'
+import type { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+import { build } from 'vite'
+import { afterAll, beforeAll, describe, it, expect, vi } from 'vitest'
+import { createFixtureSource } from '../data/fixtureSource'
+import type { DataSource } from '../data/source'
+import { createServer, type AppServer } from './app'
+import { createLogger } from './logger'
+
+// The fixtures without the demo's latency: fast and deterministic
+const dataSource = createFixtureSource()
+const failingSource: DataSource = { ...dataSource, getUsers: () => Promise.reject(new Error('disk on fire')) }
+
+const quietLogger = createLogger({ write: () => {} })
+
+// Listens on a free port for one request, like supertest's request(app)
+async function request(server: AppServer, url: string, init?: RequestInit) {
+  const listener = server.app.listen(0)
+  await once(listener, 'listening')
+  try {
+    const { port } = listener.address() as AddressInfo
+    const response = await fetch(`http://localhost:${port}${url}`, { redirect: 'manual', ...init })
+    return { status: response.status, headers: response.headers, text: await response.text() }
+  } finally {
+    listener.closeAllConnections()
+    listener.close()
+  }
+}
+
+describe('createServer() in development', () => {
+  let server: AppServer
+
+  beforeAll(async () => {
+    server = await createServer({
+      mode: 'development',
+      base: '/demo/',
+      dataSource: { ...dataSource, getUsers: failingSource.getUsers },
+      logger: quietLogger,
+      hmr: false,
+    })
+  }, 60000)
+
+  afterAll(() => server?.close())
+
+  it('renders pages through Vite under the BASE prefix', async () => {
+    const page = await request(server, '/demo/suspense')
+
+    expect(page.status).toBe(200)
+    expect(page.headers.get('content-type')).toBe('text/html; charset=utf-8')
+    expect(page.headers.get('x-request-id')).toBeTruthy()
+    expect(page.text).toContain('Ada Lovelace')
+    expect(page.text).toMatch(/<script nonce="[\w+/=]+" type="module" src="\/demo\/src\/main.tsx">/)
+  }, 30000)
+
+  it('puts the response’s CSP nonce on every script of the page', async () => {
+    const page = await request(server, '/demo/suspense')
+    const csp = page.headers.get('content-security-policy')!
+    const nonce = csp.match(/'nonce-([\w+/=]+)'/)![1]
+
+    // Vite's preamble, the entry module, React's streaming scripts and the
+    // hydration payload
+    const scripts = page.text.match(/<script\b[^>]*>/g)!
+    expect(scripts.length).toBeGreaterThan(2)
+    for (const script of scripts) expect(script).toContain(`nonce="${nonce}"`)
+
+    expect(page.headers.get('x-content-type-options')).toBe('nosniff')
+    expect(page.headers.get('referrer-policy')).toBe('strict-origin-when-cross-origin')
+    // Development never pins HTTPS
+    expect(page.headers.get('strict-transport-security')).toBeNull()
+
+    const next = await request(server, '/demo/suspense')
+    expect(next.headers.get('content-security-policy')).not.toBe(csp)
+  }, 30000)
+
+  it('redirects the index and answers unknown pages with a 404', async () => {
+    for (const path of ['/demo/', '/demo']) {
+      const index = await request(server, path)
+      expect(index.status).toBe(302)
+      expect(index.headers.get('location')).toBe('/demo/suspense')
+    }
+
+    const missing = await request(server, '/demo/nope')
+    expect(missing.status).toBe(404)
+    expect(missing.text).toContain('Page not found')
+  })
+
+  it('answers malformed Server Action calls with a 400', async () => {
+    for (const body of ['not json', '[null,null]']) {
+      const call = await request(server, '/demo/__actions/submitOrder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      })
+      expect(call.status).toBe(400)
+      expect(JSON.parse(call.text)).toEqual({ error: 'Invalid arguments for action "submitOrder"' })
+    }
+  })
+
+  it('shows the error message of a failed API request', async () => {
+    const users = await request(server, '/demo/api/users')
+
+    expect(users.status).toBe(500)
+    expect(JSON.parse(users.text)).toEqual({ error: 'disk on fire' })
+  })
+})
+
+describe('createServer() in production', () => {
+  let distDir: string
+  let server: AppServer
+  let logLines: string[]
+
+  // A real build, with a BASE, in a temporary directory
+  beforeAll(async () => {
+    distDir = await fs.mkdtemp(path.join(os.tmpdir(), 'app-test-'))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    await build({ base: '/demo/', logLevel: 'silent', build: { outDir: path.join(distDir, 'client') } })
+    await build({
+      base: '/demo/',
+      logLevel: 'silent',
+      build: { ssr: 'src/entry-server.tsx', outDir: path.join(distDir, 'server') },
+    })
+    vi.restoreAllMocks()
+
+    logLines = []
+    server = await createServer({
+      mode: 'production',
+      base: '/demo/',
+      dataSource: failingSource,
+      logger: createLogger({ write: (line) => logLines.push(line) }),
+      distDir,
+      pageCache: {},
+    })
+  }, 120000)
+
+  afterAll(async () => {
+    await server?.close()
+    if (distDir) await fs.rm(distDir, { recursive: true, force: true })
+  })
+
+  it('serves compressed pages that preload the built chunks', async () => {
+    const page = await request(server, '/demo/activity', { headers: { 'Accept-Encoding': 'gzip' } })
+
+    expect(page.status).toBe(200)
+    expect(page.headers.get('content-type')).toBe('text/html; charset=utf-8')
+    expect(page.headers.get('content-encoding')).toBe('gzip')
+    expect(page.text).toContain('Activity Demo')
+    expect(page.text).toMatch(/<link rel="modulepreload" crossorigin href="\/demo\/assets\/ActivityDemo-[\w-]+\.js">/)
+  })
+
+  it('serves the built assets through sirv', async () => {
+    const manifest = JSON.parse(await fs.readFile(path.join(distDir, 'client/.vite/manifest.json'), 'utf-8'))
+    const entry = manifest['index.html'].file
+
+    const asset = await request(server, `/demo/${entry}`, { headers: { 'Accept-Encoding': 'gzip' } })
+    expect(asset.status).toBe(200)
+    expect(asset.headers.get('content-type')).toContain('text/javascript')
+    expect(asset.headers.get('content-encoding')).toBe('gzip')
+    expect(asset.headers.get('cache-control')).toBe('public, max-age=31536000, immutable')
+
+    // Not fingerprinted: revalidated every time
+    const icon = await request(server, '/demo/vite.svg')
+    expect(icon.headers.get('cache-control')).toBe('no-cache')
+    expect(icon.headers.get('etag')).toBeTruthy()
+
+    // Outside the BASE, or not built: the app's 404 page
+    expect((await request(server, `/${entry}`)).status).toBe(404)
+    expect((await request(server, '/demo/assets/missing.js')).status).toBe(404)
+  })
+
+  it('serves cached pages with an ETag until they are invalidated', async () => {
+    const miss = await request(server, '/demo/view-transitions')
+    expect(miss.headers.get('x-cache')).toBe('MISS')
+    expect(miss.headers.get('cache-control')).toBe('no-cache')
+    const etag = miss.headers.get('etag')!
+
+    const hit = await request(server, '/demo/view-transitions?utm=1')
+    expect(hit.headers.get('x-cache')).toBe('HIT')
+    expect(hit.headers.get('etag')).toBe(etag)
+    // Every response has its own nonce, in the policy and on the scripts
+    const nonceOf = (page: typeof hit) => page.headers.get('content-security-policy')!.match(/'nonce-([\w+/=]+)'/)![1]
+    expect(nonceOf(hit)).not.toBe(nonceOf(miss))
+    for (const page of [miss, hit]) {
+      const scripts = page.text.match(/<script\b[^>]*>/g)!
+      for (const script of scripts) expect(script).toContain(`nonce="${nonceOf(page)}"`)
+    }
+    expect(hit.text.replaceAll(nonceOf(hit), nonceOf(miss))).toBe(miss.text)
+    expect(hit.text).not.toContain('__CSP_NONCE__')
+
+    // As a browser revalidates (fetch() would add "Cache-Control: no-cache",
+    // which asks for a full response)
+    const revalidated = await request(server, '/demo/view-transitions', {
+      headers: { 'If-None-Match': etag, 'Cache-Control': 'max-age=0' },
+    })
+    expect(revalidated.status).toBe(304)
+    expect(revalidated.text).toBe('')
+    // The browser's copy keeps the policy (and nonce) it came with
+    expect(revalidated.headers.get('content-security-policy')).toBeNull()
+
+    const invalidated = await request(server, '/demo/__cache/invalidate?path=/view-transitions', { method: 'POST' })
+    expect(JSON.parse(invalidated.text)).toEqual({ invalidated: 1 })
+    expect((await request(server, '/demo/view-transitions')).headers.get('x-cache')).toBe('MISS')
+
+    // Unknown pages are always rendered, and streamed
+    const missing = await request(server, '/demo/nope')
+    expect(missing.status).toBe(404)
+    expect(missing.headers.get('x-cache')).toBe('BYPASS')
+    expect(missing.headers.get('etag')).toBeNull()
+  })
+
+  it('sends a page whose boundaries failed like a streamed one, without caching it', async () => {
+    // The user picker's boundary fails (getUsers rejects) after the shell:
+    // the client renders it, so the page is still a 200, as in development
+    const page = await request(server, '/demo/suspense')
+    expect(page.status).toBe(200)
+    expect(page.headers.get('x-cache')).toBe('MISS')
+    expect(page.text).toContain('Ada Lovelace')
+    expect(logLines.map((line) => JSON.parse(line))).toContainEqual(
+      expect.objectContaining({ msg: 'render error', url: '/demo/suspense' })
+    )
+
+    expect((await request(server, '/demo/suspense')).headers.get('x-cache')).toBe('MISS')
+  })
+
+  it('sets the security headers and logs CSP violations', async () => {
+    const page = await request(server, '/demo/activity')
+    expect(page.headers.get('strict-transport-security')).toBe('max-age=31536000; includeSubDomains')
+    expect(page.headers.get('x-frame-options')).toBe('DENY')
+    expect(page.headers.get('content-security-policy')).toContain('report-uri /demo/__csp-report')
+
+    const report = {
+      'csp-report': {
+        'document-uri': 'http://localhost/demo/activity',
+        'effective-directive': 'script-src-elem',
+        'blocked-uri': 'inline',
+      },
+    }
+    const logged = await request(server, '/demo/__csp-report', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/csp-report' },
+      body: JSON.stringify(report),
+    })
+    expect(logged.status).toBe(204)
+    expect(logLines.map((line) => JSON.parse(line))).toContainEqual(
+      expect.objectContaining({ msg: 'CSP violation', directive: 'script-src-elem', blockedUri: 'inline' })
+    )
+
+    const junk = await request(server, '/demo/__csp-report', { method: 'POST', body: '{}' })
+    expect(junk.status).toBe(400)
+  })
+
+  it('hides error details and logs them instead', async () => {
+    const users = await request(server, '/demo/api/users', { headers: { 'X-Request-Id': 'test-1' } })
+    expect(users.status).toBe(500)
+    expect(JSON.parse(users.text)).toEqual({ error: 'API request failed' })
+    expect(logLines.map((line) => JSON.parse(line))).toContainEqual(
+      expect.objectContaining({ msg: 'API request failed', requestId: 'test-1' })
+    )
+
+    // Errors raised by Express itself get the error page
+    const tooLarge = await request(server, '/demo/__report', { method: 'POST', body: 'x'.repeat(20000) })
+    expect(tooLarge.status).toBe(413)
+    expect(tooLarge.headers.get('content-type')).toContain('text/html')
+    expect(tooLarge.headers.get('cache-control')).toBe('no-store')
+    expect(tooLarge.text).not.toContain('PayloadTooLargeError')
+  })
+})
@@ -0,0 +1,679 @@
+/**
+ * SERVER-SIDE ONLY (Node.js/Express) - The Express app
+ *
+ * createServer() builds the app server.tsx listens with, and tests call
+ * directly (see app.test.ts). It:
+ * 1. Serves static assets (CSS, JS, images)
+ * 2. Performs Server-Side Rendering (SSR) for each request
+ * 3. Streams the rendered HTML to the browser as Suspense boundaries resolve
+ * 4. Runs Server Actions, called over fetch or posted by plain HTML forms
+ * 5. Renders React Server Components to an RSC payload (GET {BASE}rsc)
+ * 6. Logs every request as structured JSON, tagged with a request ID
+ * 7. Serves the demos' data as a REST API (GET {BASE}api/...)
+ * 8. Logs the errors browsers report (POST {BASE}__report)
+ * 9. Sets caching headers, and keeps rendered pages in memory if asked to
+ *    (see httpCache.ts)
+ * 10. Sets security headers and a Content Security Policy with a nonce per
+ *     response, and logs its violations (POST {BASE}__csp-report, see
+ *     security.ts)
+ *
+ * Listening, and shutting down gracefully, is left to server.tsx.
+ *
+ * NEVER runs in the browser.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Transform, Writable } from "node:stream";
+import { pathToFileURL } from "node:url";
+import express from "express";
+import type { Request, Response } from "express";
+import type { Rollup, ViteDevServer } from "vite";
+import type { DataSource } from "../data/source";
+import { stripBase } from "../router";
+import { handleApiRequest } from "./api";
+import { renderErrorPage } from "./errorPage";
+import {
+  IMMUTABLE,
+  NO_STORE,
+  REVALIDATE,
+  createPageCache,
+  etagFor,
+  fingerprintedAssets,
+  type CachedPage,
+  type PageCacheOptions,
+} from "./httpCache";
+import { createLogger, type Logger } from "./logger";
+import { parseClientReport } from "./report";
+import {
+  NONCE_PLACEHOLDER,
+  POLICY_HEADERS,
+  createNonce,
+  fillNonce,
+  parseCspReports,
+  securityHeaders,
+  withNonce,
+  type CspMode,
+} from "./security";
+
+export interface ServerOptions {
+  /** Development renders through Vite's dev server, production the build. */
+  mode: "development" | "production";
+  /** Public path the app is served under, "/" by default. */
+  base?: string;
+  /** The demos' data, served by the REST API and read directly during SSR. */
+  dataSource: DataSource;
+  /** Structured JSON logs; stack traces are only logged in development. */
+  logger?: Logger;
+  /**
+   * How long (ms) to wait for pending Suspense boundaries before giving up.
+   * On abort, unresolved boundaries are left to render on the client.
+   */
+  abortDelay?: number;
+  /** Where `pnpm build` wrote the client, server and RSC bundles. */
+  distDir?: string;
+  /** Vite's HMR WebSocket server (development only). */
+  hmr?: boolean;
+  /**
+   * Keeps rendered pages in memory (production only). Off by default, `{}`
+   * caches with httpCache.ts's defaultPageTtl.
+   */
+  pageCache?: PageCacheOptions | false;
+  /**
+   * "report-only" sends the Content Security Policy without enforcing it:
+   * violations are only logged.
+   */
+  csp?: CspMode;
+}
+
+export interface AppServer {
+  app: express.Express;
+  /**
+   * Abort functions of the renders that are still streaming, so a shutdown
+   * can wait for them (and abort the stragglers).
+   */
+  inFlightRenders: Set<() => void>;
+  /**
+   * Starts a shutdown: responses close their connection from now on, and
+   * `onIdle` is called whenever one of them is done.
+   */
+  drain(onIdle: () => void): void;
+  /** Stops Vite and the RSC watcher (development). */
+  close(): Promise<void>;
+}
+
+export async function createServer({
+  mode,
+  base = "/",
+  dataSource,
+  logger = createLogger({ includeStack: mode !== "production" }),
+  abortDelay = 10000,
+  distDir = "./dist",
+  hmr = true,
+  pageCache: pageCacheOptions = false,
+  csp = "enforce",
+}: ServerOptions): Promise<AppServer> {
+  const isProduction = mode === "production";
+  const dist = path.resolve(distDir);
+
+  // build:static (prerender.ts) replaces index.html with a rendered page and
+  // keeps the original template in .vite/, next to the SSR manifest
+  const templateHtml = isProduction
+    ? await fs
+        .readFile(path.join(dist, "client/.vite/index.html"), "utf-8")
+        .catch(() => fs.readFile(path.join(dist, "client/index.html"), "utf-8"))
+    : "";
+  const ssrManifest = isProduction
+    ? await fs.readFile(path.join(dist, "client/.vite/ssr-manifest.json"), "utf-8")
+    : undefined;
+  // Every file of the client build has a content hash in its name
+  const assets = isProduction
+    ? fingerprintedAssets(
+        JSON.parse(await fs.readFile(path.join(dist, "client/.vite/manifest.json"), "utf-8"))
+      )
+    : new Set<string>();
+  // In development, pages must always show the latest code
+  const pageCache =
+    isProduction && pageCacheOptions ? createPageCache(pageCacheOptions) : null;
+
+  const app = express();
+
+  // Every response, static assets included, gets the security headers. The
+  // policy's nonce is new for each one: scripts injected into a page can't
+  // know it in advance
+  const cspReportUri = `${base}__csp-report`;
+  app.use((_req, res, next) => {
+    res.locals.nonce = createNonce();
+    res.set(
+      securityHeaders({
+        mode: csp,
+        nonce: res.locals.nonce,
+        development: !isProduction,
+        reportUri: cspReportUri,
+      })
+    );
+    next();
+  });
+
+  let vite: ViteDevServer | undefined;
+  if (!isProduction) {
+    const { createServer: createViteServer } = await import("vite");
+    vite = await createViteServer({
+      server: { middlewareMode: true, ws: hmr ? undefined : false },
+      appType: "custom",
+      base,
+    });
+    // Vite strips the BASE from req.url for its own middlewares; the routes
+    // below expect it, as in production
+    const { middlewares } = vite;
+    app.use((req, res, next) => {
+      const { url } = req;
+      middlewares(req, res, (error?: unknown) => {
+        req.url = url;
+        next(error);
+      });
+    });
+  } else {
+    const compression = (await import("compression")).default;
+    const sirv = (await import("sirv")).default;
+    app.use(compression());
+    app.use(
+      base,
+      sirv(path.join(dist, "client"), {
+        extensions: [],
+        etag: true,
+        // Fingerprinted files are kept for good; anything else (vite.svg)
+        // is revalidated with its ETag
+        setHeaders(res, pathname) {
+          res.setHeader("Cache-Control", assets.has(pathname) ? IMMUTABLE : REVALIDATE);
+        },
+      })
+    );
+  }
+
+  const inFlightRenders = new Set<() => void>();
+  let shuttingDown = false;
+  let onIdle = () => {};
+
+  // Request IDs and access logs (static assets are served above and skip
+  // both). A proxy's X-Request-Id is reused when it looks sane, so log lines
+  // can be correlated across services; the ID is echoed in the response
+  app.use((req, res, next) => {
+    const incomingId = req.get("X-Request-Id");
+    const requestId =
+      incomingId && /^[\w.:-]{1,128}$/.test(incomingId) ? incomingId : randomUUID();
+    const start = performance.now();
+
+    res.locals.requestId = requestId;
+    res.set("X-Request-Id", requestId);
+    if (shuttingDown) res.set("Connection", "close");
+
+    res.on("close", () => {
+      logger.info("request", {
+        requestId,
+        method: req.method,
+        url: req.originalUrl,
+        status: res.statusCode,
+        durationMs: Math.round(performance.now() - start),
+        // The client went away before the response was complete
+        ...(!res.writableFinished && { aborted: true }),
+        // Render timings, set by the SSR middleware
+        ...res.locals.render,
+      });
+      // Keep-alive connections would otherwise hold the server open
+      if (shuttingDown) setImmediate(onIdle);
+    });
+    next();
+  });
+
+  // Logs a failed request and answers with the error page. Once streaming
+  // has started, the status is already sent: all we can do is end the
+  // response (React has already written what it could)
+  function sendError(req: Request, res: Response, error: unknown, status = 500) {
+    if (error instanceof Error) vite?.ssrFixStacktrace(error);
+    logger.error("request failed", {
+      requestId: res.locals.requestId,
+      url: req.originalUrl,
+      error,
+    });
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res
+      .status(status)
+      .set({ "Content-Type": "text/html", "Cache-Control": NO_STORE })
+      .end(
+        renderErrorPage({
+          status,
+          requestId: res.locals.requestId,
+          homeHref: base,
+          // The stack overlay is for development only
+          error: isProduction ? undefined : error,
+        })
+      );
+  }
+
+  // The RSC bundle brings its own copy of React (built with the
+  // "react-server" condition), so it can't go through Vite's dev module
+  // graph like entry-server.tsx. In dev it's built in watch mode instead,
+  // started by the first RSC request, into a directory of its own (dist/rsc
+  // is the production build's).
+  // Node never unloads an imported module, so every rebuild that changes the
+  // bundle stays in memory once imported: it's imported under its content
+  // hash, so rebuilds with the same output (and requests in between) reuse
+  // it, and a restart of the dev server frees them all.
+  const devRscDir = path.resolve("node_modules/.vite/rsc");
+  let rscVersion = "";
+  let rscReady: Promise<void> | undefined;
+  let rscWatcher: Rollup.RollupWatcher | undefined;
+  function watchRsc() {
+    rscReady ??= (async () => {
+      const { build } = await import("vite");
+      const watcher = (await build({
+        mode: "rsc",
+        logLevel: "warn",
+        build: { watch: {}, outDir: devRscDir },
+      })) as Rollup.RollupWatcher;
+      rscWatcher = watcher;
+      await new Promise<void>((resolve) => {
+        watcher.on("event", async (event) => {
+          if (event.code === "END") {
+            const bundle = await fs.readFile(path.join(devRscDir, "entry-rsc.js"));
+            rscVersion = createHash("sha1").update(bundle).digest("hex").slice(0, 8);
+            resolve();
+          } else if (event.code === "ERROR") {
+            logger.error("RSC build failed", { error: event.error });
+          }
+        });
+      });
+    })();
+    return rscReady;
+  }
+
+  // Loads the server entry: through Vite in dev (always fresh, with HMR),
+  // the pre-built server bundle in production
+  async function loadServerEntry() {
+    return isProduction
+      ? await import(pathToFileURL(path.join(dist, "server/entry-server.js")).href)
+      : await vite!.ssrLoadModule("/src/entry-server.tsx");
+  }
+
+  async function loadRscEntry() {
+    if (isProduction) {
+      return await import(pathToFileURL(path.join(dist, "rsc/entry-rsc.js")).href);
+    }
+    await watchRsc();
+    const entry = pathToFileURL(path.join(devRscDir, "entry-rsc.js")).href;
+    return await import(`${entry}?v=${rscVersion}`);
+  }
+
+  // React Server Components payload, consumed by src/rsc/client.ts
+  app.get(`${base}rsc`, async (req, res) => {
+    try {
+      const { renderRsc } = await loadRscEntry();
+      const { pipe } = renderRsc({
+        onError(error: unknown) {
+          // The error reaches the client inside the payload, where an error
+          // boundary catches it (message hidden in production)
+          logger.error("RSC render error", {
+            requestId: res.locals.requestId,
+            url: req.originalUrl,
+            error,
+          });
+        },
+      });
+      res.set({ "Content-Type": "text/x-component" });
+      pipe(res);
+    } catch (e) {
+      logger.error("RSC render failed", {
+        requestId: res.locals.requestId,
+        url: req.originalUrl,
+        error: e,
+      });
+      res.status(500).end();
+    }
+  });
+
+  // Server Actions called from JavaScript (see src/actions/client.ts).
+  // The body is read as text: arguments are decoded by the action codec
+  app.post(
+    `${base}__actions/:id`,
+    express.text({ type: "application/json" }),
+    async (req, res) => {
+      try {
+        const { callAction } = await loadServerEntry();
+        const response = await callAction(req.params.id, req.body);
+        if (!response) {
+          res.status(404).json({ error: `Unknown action "${req.params.id}"` });
+          return;
+        }
+        // Malformed arguments: a bad request, not a failed action
+        res.status("error" in response ? 400 : 200).json(response);
+      } catch (e) {
+        logger.error("server action failed", {
+          requestId: res.locals.requestId,
+          action: req.params.id,
+          error: e,
+        });
+        res.status(500).json({
+          error: isProduction ? "Server action failed" : (e as Error).message,
+        });
+      }
+    }
+  );
+
+  // REST API over the data source, consumed by src/data/restSource.ts
+  app.use(`${base}api`, async (req, res) => {
+    if (req.method !== "GET") {
+      res.status(405).set("Allow", "GET").json({ error: "Method not allowed" });
+      return;
+    }
+    try {
+      const { status, body } = await handleApiRequest(dataSource, req.path);
+      res.status(status).json(body);
+    } catch (e) {
+      logger.error("API request failed", {
+        requestId: res.locals.requestId,
+        url: req.originalUrl,
+        error: e,
+      });
+      res.status(500).json({
+        error: isProduction ? "API request failed" : (e as Error).message,
+      });
+    }
+  });
+
+  // Errors the browser recovered from or caught, hydration mismatches among
+  // them (see src/diagnostics.ts). Sent with navigator.sendBeacon, which
+  // doesn't read the response
+  app.post(
+    `${base}__report`,
+    express.text({ type: "*/*", limit: "16kb" }),
+    (req, res) => {
+      const report =
+        typeof req.body === "string" ? parseClientReport(req.body) : null;
+      if (!report) {
+        res.status(400).end();
+        return;
+      }
+      logger.warn("client error", { requestId: res.locals.requestId, ...report });
+      res.status(204).end();
+    }
+  );
+
+  // Content Security Policy violations, sent by browsers as
+  // application/csp-report (report-uri) or application/reports+json
+  // (the Reporting API)
+  app.post(
+    cspReportUri,
+    express.text({ type: "*/*", limit: "16kb" }),
+    (req, res) => {
+      const violations =
+        typeof req.body === "string" ? parseCspReports(req.body) : [];
+      if (violations.length === 0) {
+        res.status(400).end();
+        return;
+      }
+      for (const violation of violations) {
+        logger.warn("CSP violation", { requestId: res.locals.requestId, csp, ...violation });
+      }
+      res.status(204).end();
+    }
+  );
+
+  // Drops cached pages: all of them, or just ?path=/suspense. Only answered
+  // on the server's own machine, e.g. for a deploy script
+  if (pageCache) {
+    app.post(`${base}__cache/invalidate`, (req, res) => {
+      const { remoteAddress = "" } = req.socket;
+      if (!["127.0.0.1", "::1", "::ffff:127.0.0.1"].includes(remoteAddress)) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+      const page = typeof req.query.path === "string" ? req.query.path : undefined;
+      res.json({ invalidated: pageCache.invalidate(page) });
+    });
+  }
+
+  // A page whose HTML is complete (from the cache, or rendered for it) goes
+  // out with an ETag, so a browser revalidating it can get a 304. Its HTML
+  // has NONCE_PLACEHOLDER where the nonces go: each response fills in its
+  // own, and the ETag (of the HTML as stored) doesn't change with them.
+  // Streamed pages have none: their headers go out before the HTML exists,
+  // and holding the page back for a hash would undo the streaming
+  function sendPage(
+    req: Request,
+    res: Response,
+    page: CachedPage,
+    cache: "HIT" | "MISS",
+    status = 200
+  ) {
+    res.status(status).set({
+      "Content-Type": "text/html",
+      "Cache-Control": REVALIDATE,
+      ETag: page.etag,
+      "X-Cache": cache,
+    });
+    if (req.fresh) {
+      // The browser keeps its copy, and that copy's scripts carry the nonce
+      // of the response it came with: the policy it came with must stay too
+      for (const header of POLICY_HEADERS) res.removeHeader(header);
+      res.status(304).end();
+      return;
+    }
+    res.end(fillNonce(page.html, res.locals.nonce));
+  }
+
+  // Plain HTML form posts (Server Action forms submitted without JavaScript)
+  app.use(express.urlencoded({ extended: false }));
+
+  // SSR middleware - handles ALL page requests
+  app.use(async (req, res) => {
+    try {
+      // App-relative URL, e.g. "/activity?user=2": the BASE prefix is
+      // removed, like the client's usePathname() does. The bare BASE
+      // ("/demo" for "/demo/") is the index, and redirected like it
+      const [requestPath] = req.originalUrl.split("?");
+      const pathname = stripBase(requestPath, base);
+      const url = `${pathname}${req.originalUrl.slice(requestPath.length)}`;
+
+      // Cached pages are served from memory. On a miss they're rendered
+      // whole (not streamed) and stored
+      const cacheable =
+        pageCache !== null && req.method === "GET" && pageCache.accepts(pathname);
+      const cached = cacheable ? pageCache.get(pathname) : undefined;
+      if (cached) {
+        sendPage(req, res, cached, "HIT");
+        return;
+      }
+
+      let template;
+      if (!isProduction) {
+        // DEV: Load template and transform it with Vite
+        template = await fs.readFile("./index.html", "utf-8");
+        template = await vite!.transformIndexHtml(url, template);
+      } else {
+        // PROD: Use pre-built template
+        template = templateHtml;
+      }
+      // The entry module, and Vite's inline preamble in dev. Pages for the
+      // cache get the placeholder, replaced whenever they're sent
+      const nonce: string = cacheable ? NONCE_PLACEHOLDER : res.locals.nonce;
+      template = withNonce(template, nonce);
+      // Load the server-side render function (runs in Node.js)
+      const { render, matchRoute, runFormAction, preloadDemos } =
+        await loadServerEntry();
+      await preloadDemos();
+
+      // Routing: the index redirects to the default demo, unknown paths still
+      // render (the NotFound page) but with a 404 status
+      const route = matchRoute(url);
+      if (route.type === "redirect") {
+        res.redirect(302, `${base.replace(/\/+$/, "")}${route.to}`);
+        return;
+      }
+      const status = route.type === "not-found" ? 404 : 200;
+
+      // A Server Action form posted without JavaScript: run the action first,
+      // then render this page with its result (React calls it "form state")
+      const formState =
+        req.method === "POST" && req.body ? await runFormAction(req.body) : null;
+
+      // The template is split around the app placeholder: everything before it
+      // is sent with the shell, everything after it once the stream finishes
+      const [htmlStart, htmlEnd] = template.split(`<!--app-html-->`);
+
+      let didError = false;
+      // An error before the shell was ready means React will fall back to
+      // client rendering, so the response is flagged as a server error.
+      // Errors after it (boundaries left to the client, or the abort below)
+      // don't change the status, streamed or not
+      let pageStatus = status;
+      // Set when the client disconnected before the page was complete
+      let clientGone = false;
+      // Render timings for the access log: time to the shell, to the last
+      // Suspense boundary, and the gap between them (the Suspense wait)
+      const renderStart = performance.now();
+      let shellReadyAt = renderStart;
+      const requestId: string = res.locals.requestId;
+
+      // SERVER-SIDE RENDERING: Call render() which executes React components on the server
+      // This returns a stream instead of a string, so the browser gets the
+      // shell (and Suspense fallbacks) without waiting for slow data
+      // React puts the nonce on the inline scripts it streams
+      const { pipe, abort, getHead, getDataScript } = render(url, ssrManifest, {
+        formState,
+        nonce,
+        onShellError(error: unknown) {
+          // The shell itself failed: nothing has been sent yet, so we can
+          // still respond with a proper error status
+          sendError(req, res, error);
+        },
+        onShellReady() {
+          shellReadyAt = performance.now();
+          if (didError) pageStatus = 500;
+          if (cacheable) return;
+          res.status(pageStatus).set({
+            "Content-Type": "text/html",
+            "Cache-Control": REVALIDATE,
+            ...(pageCache && { "X-Cache": "BYPASS" }),
+          });
+          res.write(htmlStart.replace(`<!--app-head-->`, withNonce(getHead(), nonce)));
+
+          // Forward every chunk React produces straight into the response.
+          // flush() pushes partial output through compression in production
+          const transformStream = new Transform({
+            transform(chunk, encoding, callback) {
+              res.write(chunk, encoding);
+              res.flush?.();
+              callback();
+            },
+          });
+
+          // The hydration payload goes outside #root (React owns everything
+          // inside it) and only once all data is in. main.tsx is a module
+          // script, so it runs after this tag has been parsed
+          transformStream.on("finish", () => {
+            res.end(htmlEnd.replace(`<!--app-data-->`, getDataScript()));
+          });
+
+          pipe(transformStream);
+        },
+        onAllReady() {
+          const allReadyAt = performance.now();
+          res.locals.render = {
+            shellMs: Math.round(shellReadyAt - renderStart),
+            renderMs: Math.round(allReadyAt - renderStart),
+            suspenseWaitMs: Math.round(allReadyAt - shellReadyAt),
+          };
+          if (!cacheable || res.headersSent) return;
+
+          // The whole page, for the cache. A page with errors (some of its
+          // boundaries are left to the client) is sent, but not stored
+          let html = "";
+          pipe(
+            new Writable({
+              write(chunk, _encoding, callback) {
+                html += chunk;
+                callback();
+              },
+              final(callback) {
+                const page =
+                  htmlStart.replace(`<!--app-head-->`, withNonce(getHead(), nonce)) +
+                  html +
+                  htmlEnd.replace(`<!--app-data-->`, getDataScript());
+                if (didError) {
+                  sendPage(req, res, { html: page, etag: etagFor(page) }, "MISS", pageStatus);
+                } else {
+                  sendPage(req, res, pageCache.set(pathname, page), "MISS");
+                }
+                callback();
+              },
+            })
+          );
+        },
+        onError(error: unknown) {
+          // Errors inside Suspense boundaries land here too; React recovers
+          // from those by rendering the boundary on the client, where an
+          // error boundary can catch them. In production React only tells
+          // the client that the boundary failed, never the message or stack
+          didError = true;
+          // The abort below, not a failure: the access log has it already
+          if (clientGone) return requestId;
+          logger.error("render error", { requestId, url: req.originalUrl, error });
+          // The returned string is the error's "digest", the one detail React
+          // does send to the client: it links a client error to this log line
+          return requestId;
+        },
+      }, dataSource);
+      inFlightRenders.add(abort);
+
+      // Stop waiting for slow boundaries after the configured delay
+      const abortTimer = setTimeout(() => abort(), abortDelay);
+      res.on("close", () => {
+        clearTimeout(abortTimer);
+        inFlightRenders.delete(abort);
+        // The client went away mid-stream: nobody is waiting for the rest
+        if (!res.writableFinished) {
+          clientGone = true;
+          abort();
+        }
+      });
+    } catch (e) {
+      sendError(req, res, e);
+    }
+  });
+
+  // Errors passed on by Express itself, e.g. a malformed form body
+  app.use(
+    (
+      error: Error & { status?: number },
+      req: Request,
+      res: Response,
+      next: express.NextFunction
+    ) => {
+      // Too late for an error page: Express's own handler closes the
+      // connection
+      if (res.headersSent) {
+        next(error);
+        return;
+      }
+      sendError(req, res, error, error.status ?? 500);
+    }
+  );
+
+  return {
+    app,
+    inFlightRenders,
+    drain(callback) {
+      shuttingDown = true;
+      onIdle = callback;
+    },
+    async close() {
+      await rscWatcher?.close();
+      await vite?.close();
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { renderErrorPage } from './errorPage'
+import { createLogger } from './logger'
+
+describe('error page', () => {
+  it('shows only the request ID without an error', () => {
+    const html = renderErrorPage({ status: 500, requestId: 'req-1', homeHref: '/base/' })
+    expect(html).toContain('<code>req-1</code>')
+    expect(html).toContain('href="/base/"')
+    expect(html).not.toContain('class="overlay"')
+  })
+
+  it('escapes the stack in the development overlay', () => {
+    const error = new Error('<script>alert(1)</script>')
+    const html = renderErrorPage({ status: 500, requestId: 'req-1', error })
+    expect(html).toContain('class="overlay"')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).not.toContain('<script>alert(1)')
+  })
+})
+
+describe('logger', () => {
+  it('writes one JSON line per entry and serializes errors', () => {
+    const lines: string[] = []
+    const logger = createLogger({
+      write: (line) => lines.push(line),
+      now: () => new Date('2025-01-01T00:00:00Z'),
+    })
+
+    logger.error('render error', { requestId: 'req-1', error: new TypeError('boom') })
+
+    expect(JSON.parse(lines[0])).toEqual({
+      time: '2025-01-01T00:00:00.000Z',
+      level: 'error',
+      msg: 'render error',
+      requestId: 'req-1',
+      error: { name: 'TypeError', message: 'boom' },
+    })
+  })
+
+  it('includes stacks only when asked to', () => {
+    const lines: string[] = []
+    const logger = createLogger({ includeStack: true, write: (line) => lines.push(line) })
+    logger.warn('oops', { error: new Error('boom') })
+    expect(JSON.parse(lines[0]).error.stack).toContain('Error: boom')
+  })
+})
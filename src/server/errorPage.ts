@@ -0,0 +1,87 @@
+/**
+ * SERVER-SIDE ONLY - HTML error page
+ *
+ * Sent by app.ts when a page can't be rendered at all (the shell
+ * failed, or something threw before rendering started). It's a standalone
+ * document with inline styles: the app's CSS and JS may be what's broken.
+ *
+ * - Production: a generic message and the request ID, which matches the
+ *   server log entry. Error messages and stack traces are never included
+ * - Development: the same page with an overlay showing the error's stack
+ *
+ * NEVER runs in the browser.
+ */
+
+export interface ErrorPageOptions {
+  status: number;
+  requestId: string;
+  /** Link target for "Back to the demos". */
+  homeHref?: string;
+  /** Development only: shown in the stack overlay. */
+  error?: unknown;
+}
+
+const htmlEscapes: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => htmlEscapes[char]);
+}
+
+function renderStackOverlay(error: unknown): string {
+  const details =
+    error instanceof Error ? (error.stack ?? `${error.name}: ${error.message}`) : String(error);
+  return `
+    <section class="overlay" aria-label="Error details (development only)">
+      <h2>Server error <span>development only</span></h2>
+      <pre>${escapeHtml(details)}</pre>
+    </section>`;
+}
+
+export function renderErrorPage({
+  status,
+  requestId,
+  homeHref = "/",
+  error,
+}: ErrorPageOptions): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="robots" content="noindex" />
+    <title>Something went wrong · React 19 Demo</title>
+    <style>
+      :root { color-scheme: light dark; font-family: -apple-system, ui-sans-serif, system-ui, sans-serif; }
+      body { margin: 0; min-height: 100vh; display: grid; place-items: center; background: linear-gradient(180deg, #f6f7f9 0%, #fff 100%); color: #23272f; }
+      main { max-width: 480px; padding: 2rem 1.5rem; text-align: center; }
+      h1 { margin: 0; font-size: 2rem; letter-spacing: -0.02em; background: linear-gradient(90deg, #087ea4 0%, #7c3aed 100%); -webkit-background-clip: text; -webkit-text-fill-color: transparent; background-clip: text; }
+      p { color: #5e687e; }
+      code { font-size: 0.85em; }
+      a { display: inline-block; margin-top: 1rem; padding: 0.75rem 1.5rem; border-radius: 9999px; background: #087ea4; color: white; text-decoration: none; font-weight: 500; }
+      .overlay { position: fixed; inset: auto 1rem 1rem; max-height: 50vh; overflow: auto; padding: 1rem 1.25rem; border-radius: 12px; border-top: 4px solid #dc2626; background: #1e1e24; color: #fca5a5; text-align: left; }
+      .overlay h2 { margin: 0 0 0.75rem; font-size: 1rem; color: #fff; }
+      .overlay h2 span { margin-left: 0.5rem; font-size: 0.75rem; font-weight: 400; color: #9ca3af; }
+      .overlay pre { margin: 0; font-size: 0.8rem; white-space: pre-wrap; }
+      @media (prefers-color-scheme: dark) {
+        body { background: #16181d; color: #f6f7f9; }
+        p { color: #99a1b3; }
+      }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>Something went wrong</h1>
+      <p>The page couldn't be rendered (error ${status}). Please try again in a moment.</p>
+      <p>Request ID: <code>${escapeHtml(requestId)}</code></p>
+      <a href="${escapeHtml(homeHref)}">Back to the demos</a>
+    </main>${error !== undefined ? renderStackOverlay(error) : ""}
+  </body>
+</html>
+`;
+}
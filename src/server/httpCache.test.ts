@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { createPageCache, etagFor, fingerprintedAssets } from './httpCache'
+
+describe('HTTP caching', () => {
+  it('lists every file of the client build', () => {
+    const assets = fingerprintedAssets({
+      'index.html': { file: 'assets/index-C7o164Gm.js', css: ['assets/index-BdLOEiRp.css'] },
+      'src/assets/sample-clip.mp4': { file: 'assets/sample-clip-BUbhPI2I.mp4', assets: ['assets/poster-x1.png'] },
+    })
+
+    expect([...assets]).toEqual([
+      '/assets/index-C7o164Gm.js',
+      '/assets/index-BdLOEiRp.css',
+      '/assets/sample-clip-BUbhPI2I.mp4',
+      '/assets/poster-x1.png',
+    ])
+  })
+
+  it('keeps pages for their route’s TTL', () => {
+    let time = 0
+    const cache = createPageCache({ ttl: { '/activity': 1000 }, now: () => time })
+
+    expect(cache.accepts('/activity')).toBe(true)
+    expect(cache.accepts('/suspense')).toBe(false)
+    expect(cache.set('/activity', '<p>1</p>')).toEqual({ html: '<p>1</p>', etag: etagFor('<p>1</p>') })
+    cache.set('/suspense', '<p>2</p>')
+
+    time = 999
+    expect(cache.get('/activity')?.html).toBe('<p>1</p>')
+    expect(cache.get('/suspense')).toBeUndefined()
+    time = 1000
+    expect(cache.get('/activity')).toBeUndefined()
+  })
+
+  it('invalidates one page or all of them', () => {
+    const cache = createPageCache({ ttl: { '/a': 1000, '/b': 1000 } })
+    cache.set('/a', 'a')
+    cache.set('/b', 'b')
+
+    expect(cache.invalidate('/a')).toBe(1)
+    expect(cache.invalidate('/a')).toBe(0)
+    expect(cache.invalidate()).toBe(1)
+    expect(cache.get('/b')).toBeUndefined()
+  })
+
+  it('gives the same HTML the same ETag', () => {
+    expect(etagFor('<p>same</p>')).toBe(etagFor('<p>same</p>'))
+    expect(etagFor('<p>same</p>')).not.toBe(etagFor('<p>other</p>'))
+    expect(etagFor('')).toMatch(/^"[\w-]+"$/)
+  })
+})
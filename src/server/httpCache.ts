@@ -0,0 +1,110 @@
+/**
+ * SERVER-SIDE ONLY - HTTP caching policy
+ *
+ * - Fingerprinted assets (every file in Vite's client manifest, e.g.
+ *   /assets/index-C7o164Gm.js) never change under the same name, so
+ *   browsers and CDNs may keep them for a year without asking again
+ * - Rendered pages are "no-cache": they may be stored, but are checked
+ *   with the server before every use. Pages served whole (see below) carry
+ *   an ETag, so that check is answered with a body-less 304 when nothing
+ *   changed. Streamed pages don't: their headers are sent before the HTML
+ *   they would have to hash
+ * - An optional in-memory cache of rendered pages, keyed by path, with a
+ *   TTL per route. Cached pages are rendered to completion instead of
+ *   streamed, stored, and served from memory until they expire or are
+ *   invalidated (server.tsx's PAGE_CACHE, see app.ts). They hold a placeholder
+ *   for the CSP nonce (see security.ts), so every copy gets its own, and the
+ *   ETag stays the same
+ *
+ * NEVER runs in the browser.
+ */
+
+import { createHash } from "node:crypto";
+import type { Manifest } from "vite";
+
+export const IMMUTABLE = "public, max-age=31536000, immutable";
+export const REVALIDATE = "no-cache";
+export const NO_STORE = "no-store";
+
+/** The client files of a build, as sirv sees them ("/assets/index-C7o164Gm.js"). */
+export function fingerprintedAssets(manifest: Manifest): Set<string> {
+  const files = new Set<string>();
+  for (const chunk of Object.values(manifest)) {
+    for (const file of [chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])]) {
+      files.add(`/${file}`);
+    }
+  }
+  return files;
+}
+
+/** A strong validator: the same HTML always gets the same ETag. */
+export function etagFor(html: string): string {
+  return `"${createHash("sha1").update(html).digest("base64url")}"`;
+}
+
+/**
+ * How long (ms) each page may be served from the cache. Pages that aren't
+ * listed (404s, for one) are always rendered.
+ */
+export type PageTtl = Record<string, number>;
+
+export const defaultPageTtl: PageTtl = {
+  // Shows the data source's users and posts, which can change (DATA_FILE
+  // is read again when it's edited)
+  "/suspense": 10_000,
+  // Nothing but the demos' own code
+  "/activity": 5 * 60_000,
+  "/view-transitions": 5 * 60_000,
+  "/server-components": 5 * 60_000,
+};
+
+export interface CachedPage {
+  html: string;
+  etag: string;
+}
+
+export interface PageCacheOptions {
+  ttl?: PageTtl;
+  /** Replaceable in tests. */
+  now?: () => number;
+}
+
+export function createPageCache({ ttl = defaultPageTtl, now = Date.now }: PageCacheOptions = {}) {
+  // Keyed by path, not URL: the query string doesn't change the page, and
+  // can't be used to fill the cache
+  const entries = new Map<string, CachedPage & { expiresAt: number }>();
+
+  return {
+    /** Whether a page is cached at all. */
+    accepts: (path: string) => (ttl[path] ?? 0) > 0,
+
+    get(path: string): CachedPage | undefined {
+      const entry = entries.get(path);
+      if (entry && entry.expiresAt <= now()) {
+        entries.delete(path);
+        return undefined;
+      }
+      return entry;
+    },
+
+    set(path: string, html: string): CachedPage {
+      const page = { html, etag: etagFor(html) };
+      if ((ttl[path] ?? 0) > 0) {
+        entries.set(path, { ...page, expiresAt: now() + ttl[path] });
+      }
+      return page;
+    },
+
+    /** Drops one page, or every page; returns how many were dropped. */
+    invalidate(path?: string): number {
+      if (path === undefined) {
+        const count = entries.size;
+        entries.clear();
+        return count;
+      }
+      return entries.delete(path) ? 1 : 0;
+    },
+  };
+}
+
+export type PageCache = ReturnType<typeof createPageCache>;
@@ -0,0 +1,33 @@
+/**
+ * SERVER-SIDE ONLY - JSON file "database"
+ *
+ * A DataSource over a JSON file with the same shape as
+ * src/data/fixtures.json (the default, see server.tsx's DATA_FILE). The
+ * file is read again whenever it changes, so edits show up without a
+ * restart.
+ *
+ * NEVER runs in the browser.
+ */
+
+import fs from "node:fs/promises";
+import { createFixtureSource, type Fixtures } from "../data/fixtureSource";
+import type { DataSource } from "../data/source";
+
+export function createJsonFileSource(file: string): DataSource {
+  let loaded: { mtimeMs: number; source: DataSource } | undefined;
+
+  async function load(): Promise<DataSource> {
+    const { mtimeMs } = await fs.stat(file);
+    if (loaded?.mtimeMs !== mtimeMs) {
+      const data = JSON.parse(await fs.readFile(file, "utf-8")) as Fixtures;
+      loaded = { mtimeMs, source: createFixtureSource(data) };
+    }
+    return loaded.source;
+  }
+
+  return {
+    getUsers: async () => (await load()).getUsers(),
+    getUser: async (id) => (await load()).getUser(id),
+    getPosts: async (userId, page) => (await load()).getPosts(userId, page),
+  };
+}
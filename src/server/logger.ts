@@ -0,0 +1,73 @@
+/**
+ * SERVER-SIDE ONLY - Structured logging
+ *
+ * Every log entry is one line of JSON ({ time, level, msg, ...fields }), so
+ * logs can be filtered and aggregated by request ID, status, timings, etc.
+ * Created by server.tsx, and used by app.ts for access logs and errors.
+ *
+ * NEVER runs in the browser.
+ */
+
+export type LogLevel = "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  digest?: string;
+  stack?: string;
+}
+
+/**
+ * Turns a thrown value into plain JSON. Stacks are only included when asked
+ * for: production logs stay compact, dev logs point at the code.
+ */
+export function serializeError(
+  error: unknown,
+  { includeStack = false }: { includeStack?: boolean } = {}
+): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: "Error", message: String(error) };
+  }
+  const { digest } = error as Error & { digest?: string };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(digest !== undefined && { digest }),
+    ...(includeStack && error.stack !== undefined && { stack: error.stack }),
+  };
+}
+
+export interface LoggerOptions {
+  /** Include stack traces of logged errors. */
+  includeStack?: boolean;
+  /** Where finished lines go, replaceable in tests. */
+  write?: (line: string) => void;
+  /** Clock for the "time" field, replaceable in tests. */
+  now?: () => Date;
+}
+
+export function createLogger({
+  includeStack = false,
+  write = (line) => console.log(line),
+  now = () => new Date(),
+}: LoggerOptions = {}) {
+  function log(level: LogLevel, msg: string, fields: LogFields = {}) {
+    const entry: LogFields = { time: now().toISOString(), level, msg };
+    for (const [key, value] of Object.entries(fields)) {
+      // Errors don't survive JSON.stringify (their fields aren't enumerable)
+      entry[key] =
+        value instanceof Error ? serializeError(value, { includeStack }) : value;
+    }
+    write(JSON.stringify(entry));
+  }
+
+  return {
+    info: (msg: string, fields?: LogFields) => log("info", msg, fields),
+    warn: (msg: string, fields?: LogFields) => log("warn", msg, fields),
+    error: (msg: string, fields?: LogFields) => log("error", msg, fields),
+  };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
@@ -0,0 +1,27 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import manifest from '../test/fixtures/ssr-manifest.json'
+import { parseSsrManifest, renderPreloadLinks } from './preload'
+
+describe('preload links', () => {
+  it('links the JS and CSS of every collected module once', () => {
+    const html = renderPreloadLinks(
+      ['src/App.tsx', 'src/demos/SuspenseDemo.tsx', 'src/demos/SuspenseDemo.tsx'],
+      manifest
+    )
+
+    expect(html.split('\n').map((line) => line.trim())).toEqual([
+      '<link rel="modulepreload" crossorigin href="/assets/SuspenseDemo-Bq3kC1xe.js">',
+      '<link rel="stylesheet" href="/assets/SuspenseDemo-D8xq2ZlM.css">',
+    ])
+  })
+
+  it('preloads images and skips modules that are not in the manifest', () => {
+    const html = renderPreloadLinks(['src/assets/react.svg', 'src/unknown.ts'], manifest)
+    expect(html).toBe('<link rel="preload" href="/assets/react-CHdo91hT.svg" as="image">')
+  })
+
+  it('treats a missing manifest (dev) as empty', () => {
+    expect(renderPreloadLinks(['src/demos/SuspenseDemo.tsx'], parseSsrManifest(undefined))).toBe('')
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * SERVER-SIDE ONLY - Preload links from Vite's SSR manifest
+ *
+ * `vite build --ssrManifest` writes dist/client/.vite/ssr-manifest.json,
+ * which maps every source module to the client files it ends up in:
+ *
+ *   "src/demos/SuspenseDemo.tsx": ["/assets/SuspenseDemo-a1b2.js", "/assets/SuspenseDemo-c3d4.css"]
+ *
+ * Modules bundled into the entry chunk map to [] (index.html already loads
+ * that chunk). For the modules collected during a render (see ../preload.ts)
+ * this emits <link rel="modulepreload"> and stylesheet links, so the browser
+ * starts downloading lazily loaded chunks with the HTML instead of after
+ * main.tsx has run and hydration asked for them.
+ *
+ * NEVER runs in the browser.
+ */
+
+export type SsrManifest = Record<string, string[]>;
+
+let lastSource: string | undefined;
+let lastManifest: SsrManifest = {};
+
+// The manifest string is the same for every request; parse it once
+export function parseSsrManifest(source: string | undefined): SsrManifest {
+  if (!source) return {};
+  if (source !== lastSource) {
+    lastManifest = JSON.parse(source) as SsrManifest;
+    lastSource = source;
+  }
+  return lastManifest;
+}
+
+function renderPreloadLink(file: string): string | null {
+  if (file.endsWith(".js")) {
+    return `<link rel="modulepreload" crossorigin href="${file}">`;
+  }
+  if (file.endsWith(".css")) {
+    return `<link rel="stylesheet" href="${file}">`;
+  }
+  if (file.endsWith(".woff2")) {
+    return `<link rel="preload" href="${file}" as="font" type="font/woff2" crossorigin>`;
+  }
+  if (/\.(png|jpe?g|gif|svg|webp|avif)$/.test(file)) {
+    return `<link rel="preload" href="${file}" as="image">`;
+  }
+  // Anything else (e.g. video) is left to the page to request
+  return null;
+}
+
+export function renderPreloadLinks(
+  modules: Iterable<string>,
+  manifest: SsrManifest
+): string {
+  const files = new Set<string>();
+  for (const id of modules) {
+    for (const file of manifest[id] ?? []) files.add(file);
+  }
+  return [...files]
+    .map(renderPreloadLink)
+    .filter((link) => link !== null)
+    .join("\n    ");
+}
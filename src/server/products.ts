@@ -0,0 +1,45 @@
+/**
+ * SERVER-SIDE ONLY - Product "database"
+ *
+ * Only React Server Components (src/rsc/) import this module. Their bundle
+ * is built separately (`vite build --mode rsc`) and only ever runs in
+ * Node.js, so the serverOnly values below never reach the browser: not in
+ * the client JavaScript, not in the HTML, not in the RSC payload.
+ * src/rsc/rsc.test.ts checks all three.
+ *
+ * NEVER runs in the browser.
+ */
+
+export interface Product {
+  id: number;
+  name: string;
+  price: number;
+  serverOnly: string;
+}
+
+// Simulated database/API call
+export async function fetchProducts(): Promise<Product[]> {
+  // Simulate server-side database query
+  await new Promise((resolve) => setTimeout(resolve, 800));
+
+  return [
+    {
+      id: 1,
+      name: "Laptop",
+      price: 999,
+      serverOnly: "Secret: Database connection string - never sent to client!",
+    },
+    {
+      id: 2,
+      name: "Mouse",
+      price: 29,
+      serverOnly: "Secret: API key - stays on server!",
+    },
+    {
+      id: 3,
+      name: "Keyboard",
+      price: 79,
+      serverOnly: "Secret: Internal server data",
+    },
+  ];
+}
@@ -0,0 +1,29 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { parseClientReport } from './report'
+
+describe('parseClientReport', () => {
+  it('keeps the known fields of a valid report', () => {
+    const report = parseClientReport(
+      JSON.stringify({
+        kind: 'recoverable',
+        message: 'Hydration failed',
+        url: 'http://localhost/suspense',
+        digest: 'abc',
+        componentStack: 'x'.repeat(10000),
+        cookie: 'not logged',
+      })
+    )
+
+    expect(report).toMatchObject({ kind: 'recoverable', message: 'Hydration failed', digest: 'abc' })
+    expect(report).not.toHaveProperty('cookie')
+    expect(report?.componentStack).toHaveLength(4000)
+  })
+
+  it('rejects anything else', () => {
+    expect(parseClientReport('not json')).toBeNull()
+    expect(parseClientReport('null')).toBeNull()
+    expect(parseClientReport(JSON.stringify({ kind: 'fatal', message: 'x', url: '/' }))).toBeNull()
+    expect(parseClientReport(JSON.stringify({ kind: 'caught', url: '/' }))).toBeNull()
+  })
+})
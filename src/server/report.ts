@@ -0,0 +1,57 @@
+/**
+ * SERVER-SIDE ONLY - Client error reports
+ *
+ * The browser sends the errors React recovered from or caught (hydration
+ * mismatches among them, see src/diagnostics.ts) to {BASE}__report with
+ * navigator.sendBeacon, and app.ts logs them next to its own.
+ * Anyone can post there, so reports are validated and truncated first.
+ *
+ * NEVER runs in the browser (src/diagnostics.ts only imports its types).
+ */
+
+export type ClientErrorKind = "recoverable" | "caught" | "uncaught";
+
+export interface ClientErrorReport {
+  kind: ClientErrorKind;
+  message: string;
+  /** Set for errors of server-rendered boundaries: app.ts's request ID. */
+  digest?: string;
+  componentStack?: string;
+  /** The page the error happened on. */
+  url: string;
+}
+
+const kinds: ClientErrorKind[] = ["recoverable", "caught", "uncaught"];
+
+// Component stacks of deep trees get long; a log line shouldn't
+const MAX_FIELD_LENGTH = 4000;
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" ? value.slice(0, MAX_FIELD_LENGTH) : undefined;
+}
+
+/** Reads a report posted as JSON text; null when it isn't one. */
+export function parseClientReport(body: string): ClientErrorReport | null {
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  if (typeof json !== "object" || json === null) return null;
+
+  const kind = kinds.find((kind) => kind === json.kind);
+  const message = text(json.message);
+  const url = text(json.url);
+  if (!kind || message === undefined || url === undefined) return null;
+
+  const digest = text(json.digest);
+  const componentStack = text(json.componentStack);
+  return {
+    kind,
+    message,
+    url,
+    ...(digest !== undefined && { digest }),
+    ...(componentStack !== undefined && { componentStack }),
+  };
+}
@@ -0,0 +1,103 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  NONCE_PLACEHOLDER,
+  contentSecurityPolicy,
+  createNonce,
+  fillNonce,
+  parseCspReports,
+  securityHeaders,
+  withNonce,
+} from './security'
+
+const policy = { nonce: 'abc123', development: false, reportUri: '/__csp-report' }
+
+describe('Content Security Policy', () => {
+  it('only lets our own scripts, and the nonce’s, run', () => {
+    const csp = contentSecurityPolicy(policy)
+
+    expect(csp).toContain("script-src 'self' 'nonce-abc123'")
+    expect(csp).toContain("frame-ancestors 'none'")
+    expect(csp).toContain("object-src 'none'")
+    expect(csp).toContain('report-uri /__csp-report')
+    expect(csp).not.toContain('ws:')
+    expect(contentSecurityPolicy({ ...policy, development: true })).toContain("connect-src 'self' ws:")
+  })
+
+  it('makes a new nonce every time', () => {
+    const nonce = createNonce()
+    expect(nonce).toMatch(/^[\w+/]{22}==$/)
+    expect(createNonce()).not.toBe(nonce)
+  })
+
+  it('sends the policy as report-only when asked to', () => {
+    const enforced = securityHeaders({ ...policy, mode: 'enforce' })
+    expect(enforced['Content-Security-Policy']).toBe(contentSecurityPolicy(policy))
+    expect(enforced['Strict-Transport-Security']).toBe('max-age=31536000; includeSubDomains')
+    expect(enforced['X-Content-Type-Options']).toBe('nosniff')
+
+    const reported = securityHeaders({ ...policy, mode: 'report-only', development: true })
+    expect(reported['Content-Security-Policy']).toBeUndefined()
+    expect(reported['Content-Security-Policy-Report-Only']).toContain("'nonce-abc123'")
+    expect(reported['Strict-Transport-Security']).toBeUndefined()
+  })
+
+  it('puts the nonce on script tags that have none', () => {
+    const html = '<script type="module" src="/main.js"></script><script nonce="x">1</script><scripts>'
+
+    expect(withNonce(html, 'n')).toBe(
+      '<script nonce="n" type="module" src="/main.js"></script><script nonce="x">1</script><scripts>'
+    )
+  })
+
+  it('fills a response’s nonce into a cached page', () => {
+    const cached = withNonce('<script>1</script><p>nonce="x"</p>', NONCE_PLACEHOLDER)
+
+    expect(fillNonce(cached, 'n1')).toBe('<script nonce="n1">1</script><p>nonce="x"</p>')
+    expect(fillNonce(cached, 'n2')).toBe('<script nonce="n2">1</script><p>nonce="x"</p>')
+  })
+})
+
+describe('parseCspReports()', () => {
+  it('reads report-uri and Reporting API reports', () => {
+    const legacy = {
+      'csp-report': {
+        'document-uri': 'http://localhost/suspense',
+        'violated-directive': 'script-src-elem',
+        'effective-directive': 'script-src-elem',
+        'blocked-uri': 'inline',
+        'line-number': 12,
+      },
+    }
+    expect(parseCspReports(JSON.stringify(legacy))).toEqual([
+      { directive: 'script-src-elem', blockedUri: 'inline', documentUri: 'http://localhost/suspense', lineNumber: 12 },
+    ])
+
+    const reportingApi = [
+      { type: 'deprecation', body: {} },
+      {
+        type: 'csp-violation',
+        body: {
+          documentURL: 'http://localhost/activity',
+          effectiveDirective: 'img-src',
+          blockedURL: 'https://evil.example/x.png',
+          sourceFile: 'http://localhost/assets/index.js',
+        },
+      },
+    ]
+    expect(parseCspReports(JSON.stringify(reportingApi))).toEqual([
+      {
+        directive: 'img-src',
+        blockedUri: 'https://evil.example/x.png',
+        documentUri: 'http://localhost/activity',
+        sourceFile: 'http://localhost/assets/index.js',
+      },
+    ])
+  })
+
+  it('drops anything else', () => {
+    expect(parseCspReports('not json')).toEqual([])
+    expect(parseCspReports('null')).toEqual([])
+    expect(parseCspReports('{"csp-report": {"blocked-uri": "inline"}}')).toEqual([])
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * SERVER-SIDE ONLY - Security headers and the Content Security Policy
+ *
+ * Every response gets a fresh nonce (see app.ts). The policy only lets
+ * scripts run when they come from our own origin or carry that nonce:
+ * - React puts it on the inline scripts it streams (the `nonce` render
+ *   option, see entry-server.tsx)
+ * - withNonce() puts it on the template's own script tags (the entry module,
+ *   Vite's dev preamble) and on anything rendered into <!--app-head-->
+ * - The hydration payload's JSON tag carries it too (data/hydration.ts)
+ *
+ * Pages kept in the page cache (httpCache.ts) are sent many times, so they
+ * are rendered with NONCE_PLACEHOLDER, and every response fills in its own.
+ *
+ * Violations are reported to {BASE}__csp-report, which logs them. In
+ * report-only mode the policy is sent as Content-Security-Policy-Report-Only:
+ * nothing is blocked, so a stricter policy can be tried out on real traffic.
+ *
+ * NEVER runs in the browser.
+ */
+
+import { randomBytes } from "node:crypto";
+
+export type CspMode = "enforce" | "report-only";
+
+/** 128 random bits, as the CSP spec recommends. */
+export function createNonce(): string {
+  return randomBytes(16).toString("base64");
+}
+
+export const NONCE_PLACEHOLDER = "__CSP_NONCE__";
+
+/** Puts a response's nonce on the tags rendered with NONCE_PLACEHOLDER. */
+export function fillNonce(html: string, nonce: string): string {
+  return html.replaceAll(`nonce="${NONCE_PLACEHOLDER}"`, `nonce="${nonce}"`);
+}
+
+/** The headers that carry the nonce. */
+export const POLICY_HEADERS = [
+  "Content-Security-Policy",
+  "Content-Security-Policy-Report-Only",
+] as const;
+
+export interface PolicyOptions {
+  nonce: string;
+  /** Vite's dev server needs a WebSocket for HMR. */
+  development: boolean;
+  /** Where browsers send violation reports. */
+  reportUri: string;
+}
+
+export function contentSecurityPolicy({ nonce, development, reportUri }: PolicyOptions): string {
+  const directives: Record<string, string[]> = {
+    "default-src": ["'self'"],
+    "script-src": ["'self'", `'nonce-${nonce}'`],
+    // React's style props and the error page's <style> are inline. A nonce
+    // here would make browsers ignore 'unsafe-inline'
+    "style-src": ["'self'", "'unsafe-inline'"],
+    // Small assets are inlined by Vite as data: URLs
+    "img-src": ["'self'", "data:"],
+    // In middleware mode the HMR WebSocket listens on its own port
+    "connect-src": development ? ["'self'", "ws:"] : ["'self'"],
+    "object-src": ["'none'"],
+    "base-uri": ["'self'"],
+    "form-action": ["'self'"],
+    "frame-ancestors": ["'none'"],
+    // report-to is the Reporting API (Reporting-Endpoints below), report-uri
+    // the older mechanism, for the browsers that don't have it yet
+    "report-to": ["csp"],
+    "report-uri": [reportUri],
+  };
+  return Object.entries(directives)
+    .map(([name, values]) => `${name} ${values.join(" ")}`)
+    .join("; ");
+}
+
+export interface SecurityHeaderOptions extends PolicyOptions {
+  mode: CspMode;
+}
+
+export function securityHeaders({ mode, ...policy }: SecurityHeaderOptions): Record<string, string> {
+  return {
+    [POLICY_HEADERS[mode === "report-only" ? 1 : 0]]: contentSecurityPolicy(policy),
+    "Reporting-Endpoints": `csp="${policy.reportUri}"`,
+    // Browsers ignore HSTS over plain HTTP, but a dev server on localhost
+    // has no business pinning HTTPS for it
+    ...(!policy.development && {
+      "Strict-Transport-Security": "max-age=31536000; includeSubDomains",
+    }),
+    "X-Content-Type-Options": "nosniff",
+    "Referrer-Policy": "strict-origin-when-cross-origin",
+    // frame-ancestors isn't enforced by a report-only policy; this is
+    // (and covers browsers without CSP)
+    "X-Frame-Options": "DENY",
+  };
+}
+
+/** Adds the nonce to every <script> tag that doesn't have one yet. */
+export function withNonce(html: string, nonce: string): string {
+  return html.replace(/<script\b(?![^>]*\snonce=)/g, `<script nonce="${nonce}"`);
+}
+
+export interface CspViolation {
+  directive: string;
+  blockedUri: string;
+  /** The page the violation happened on. */
+  documentUri: string;
+  sourceFile?: string;
+  lineNumber?: number;
+}
+
+// A report can quote a whole inline script; a log line shouldn't
+const MAX_FIELD_LENGTH = 1000;
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" ? value.slice(0, MAX_FIELD_LENGTH) : undefined;
+}
+
+function violation(report: Record<string, unknown>): CspViolation | null {
+  // report-uri sends kebab-case fields, the Reporting API camelCase ones
+  const directive =
+    text(report["effective-directive"] ?? report["violated-directive"]) ??
+    text(report.effectiveDirective);
+  const blockedUri = text(report["blocked-uri"] ?? report.blockedURL) ?? "";
+  const documentUri = text(report["document-uri"] ?? report.documentURL);
+  if (directive === undefined || documentUri === undefined) return null;
+
+  const sourceFile = text(report["source-file"] ?? report.sourceFile);
+  const lineNumber = report["line-number"] ?? report.lineNumber;
+  return {
+    directive,
+    blockedUri,
+    documentUri,
+    ...(sourceFile !== undefined && { sourceFile }),
+    ...(typeof lineNumber === "number" && { lineNumber }),
+  };
+}
+
+/**
+ * Reads a violation report: `{"csp-report": {...}}` (report-uri) or an
+ * array of reports (Reporting API). Anything else is dropped.
+ */
+export function parseCspReports(body: string): CspViolation[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return [];
+  }
+  const reports = Array.isArray(json)
+    ? json
+        .filter((report) => report?.type === "csp-violation")
+        .map((report) => report.body)
+    : [(json as Record<string, unknown> | null)?.["csp-report"]];
+
+  return reports
+    .filter((report): report is Record<string, unknown> => typeof report === "object" && report !== null)
+    .map(violation)
+    .filter((report) => report !== null);
+}
@@ -0,0 +1,114 @@
+import { act, renderHook } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
+import { hydrateRoot } from 'react-dom/client'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { usePersistentState, type PersistentStateOptions } from './storage'
+
+interface Draft {
+  text: string
+}
+
+const options: PersistentStateOptions<Draft> = {
+  key: 'test:draft',
+  version: 2,
+  defaultValue: { text: '' },
+  validate: (data): data is Draft =>
+    typeof data === 'object' && data !== null && typeof (data as Draft).text === 'string',
+  // Version 1 stored the text as a plain string
+  migrate: (data, fromVersion) =>
+    fromVersion === 1 && typeof data === 'string' ? { text: data } : undefined,
+}
+
+function store(value: unknown) {
+  localStorage.setItem(options.key, JSON.stringify(value))
+}
+
+describe('usePersistentState', () => {
+  afterEach(() => localStorage.clear())
+
+  it('renders the default on the server and restores after hydration', async () => {
+    store({ version: 2, data: { text: 'saved' } })
+    function Draft() {
+      const [draft] = usePersistentState(options)
+      return <p>{draft.text || 'empty'}</p>
+    }
+    const container = document.createElement('div')
+    container.innerHTML = renderToString(<Draft />)
+    expect(container.innerHTML).toBe('<p>empty</p>')
+
+    const onRecoverableError = vi.fn()
+    const root = await act(async () => hydrateRoot(container, <Draft />, { onRecoverableError }))
+    expect(onRecoverableError).not.toHaveBeenCalled()
+    expect(container.innerHTML).toBe('<p>saved</p>')
+    act(() => root.unmount())
+  })
+
+  it('restores, migrates and rejects stored values', () => {
+    store({ version: 2, data: { text: 'saved' } })
+    expect(renderHook(() => usePersistentState(options)).result.current[0]).toEqual({ text: 'saved' })
+
+    store({ version: 1, data: 'old' })
+    expect(renderHook(() => usePersistentState(options)).result.current[0]).toEqual({ text: 'old' })
+
+    for (const invalid of [{ version: 3, data: { text: 'newer' } }, { version: 2, data: 42 }, 'not json']) {
+      store(invalid)
+      expect(renderHook(() => usePersistentState(options)).result.current[0]).toEqual({ text: '' })
+    }
+  })
+
+  it('saves updates and shares them with other components', () => {
+    const first = renderHook(() => usePersistentState(options))
+    const second = renderHook(() => usePersistentState(options))
+
+    act(() => first.result.current[1]((draft) => ({ text: draft.text + 'hi' })))
+    expect(JSON.parse(localStorage.getItem(options.key)!)).toEqual({ version: 2, data: { text: 'hi' } })
+    expect(second.result.current[0]).toEqual({ text: 'hi' })
+
+    act(() => second.result.current[2]())
+    expect(localStorage.getItem(options.key)).toBeNull()
+    expect(first.result.current[0]).toEqual({ text: '' })
+  })
+
+  it('keeps updating in memory when storage is full', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError')
+    })
+    const first = renderHook(() => usePersistentState(options))
+    const second = renderHook(() => usePersistentState(options))
+
+    act(() => first.result.current[1]({ text: 'h' }))
+    act(() => first.result.current[1]((draft) => ({ text: draft.text + 'i' })))
+    expect(first.result.current[0]).toEqual({ text: 'hi' })
+    expect(second.result.current[0]).toEqual({ text: 'hi' })
+    expect(localStorage.getItem(options.key)).toBeNull()
+    expect(warn).toHaveBeenCalledWith(`Couldn't save "${options.key}", keeping it in memory`, expect.any(DOMException))
+
+    // Once cleared, the key goes back to storage
+    setItem.mockRestore()
+    act(() => first.result.current[2]())
+    expect(first.result.current[0]).toEqual({ text: '' })
+    act(() => first.result.current[1]({ text: 'saved' }))
+    expect(JSON.parse(localStorage.getItem(options.key)!)).toEqual({ version: 2, data: { text: 'saved' } })
+    warn.mockRestore()
+  })
+
+  it('updates from the options of the latest render', () => {
+    const { result, rerender } = renderHook((props) => usePersistentState(props), { initialProps: options })
+    rerender({ ...options, defaultValue: { text: 'new default' } })
+
+    act(() => result.current[1]((draft) => ({ text: draft.text + '!' })))
+    expect(result.current[0]).toEqual({ text: 'new default!' })
+  })
+
+  it('picks up changes made in other tabs', () => {
+    const { result } = renderHook(() => usePersistentState(options))
+    act(() => {
+      store({ version: 2, data: { text: 'from another tab' } })
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: options.key, storageArea: localStorage })
+      )
+    })
+    expect(result.current[0]).toEqual({ text: 'from another tab' })
+  })
+})
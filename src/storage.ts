@@ -0,0 +1,180 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * usePersistentState(): like useState, but the value is kept in
+ * localStorage or sessionStorage, so it survives a reload.
+ *
+ * Stored values are wrapped as { version, data }. A value written by an
+ * older schema version goes through `migrate`, and anything that doesn't
+ * pass `validate` (edited by hand, written by a newer version, not JSON) is
+ * ignored in favour of the default.
+ *
+ * Server execution (entry-server.tsx):
+ * - There is no storage, so the default value is rendered
+ *
+ * Client execution (main.tsx):
+ * - Hydration also uses the default value (useSyncExternalStore's server
+ *   snapshot), so the HTML matches; React re-renders with the stored value
+ *   right after
+ * - Other tabs see changes through the `storage` event, and other
+ *   components in the same tab through a listener set
+ * - A value that doesn't fit in storage is kept in memory instead, so the
+ *   state still updates; it just won't survive a reload
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+
+export type StorageArea = "local" | "session";
+
+export interface PersistentStateOptions<T> {
+  key: string;
+  /** Schema version, bumped whenever the stored shape changes. */
+  version: number;
+  defaultValue: T;
+  /** localStorage (default) keeps the value across tabs and restarts. */
+  area?: StorageArea;
+  /** Checks that stored data has the current shape. */
+  validate: (data: unknown) => data is T;
+  /** Upgrades data written by an older version; undefined discards it. */
+  migrate?: (data: unknown, fromVersion: number) => T | undefined;
+}
+
+interface StoredValue {
+  version: number;
+  data: unknown;
+}
+
+type SetPersistentState<T> = (next: T | ((current: T) => T)) => void;
+
+// Stands in when storage is blocked (e.g. disabled cookies), so the state
+// still works for the lifetime of the page
+function createMemoryStorage(): Pick<Storage, "getItem" | "setItem" | "removeItem"> {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+const memoryStorage = { local: createMemoryStorage(), session: createMemoryStorage() };
+
+// Keys whose last write didn't fit (quota exceeded): memory holds their
+// value until they're cleared
+const heldInMemory = { local: new Set<string>(), session: new Set<string>() };
+
+function getStorage(area: StorageArea, key?: string) {
+  if (key !== undefined && heldInMemory[area].has(key)) return memoryStorage[area];
+  try {
+    const storage = area === "local" ? window.localStorage : window.sessionStorage;
+    return storage ?? memoryStorage[area];
+  } catch {
+    // Accessing the property throws when storage is blocked
+    return memoryStorage[area];
+  }
+}
+
+// The `storage` event only reaches OTHER tabs
+const listeners = new Set<(key: string) => void>();
+
+function decode<T>(raw: string | null, options: PersistentStateOptions<T>): T {
+  const { version, defaultValue, validate, migrate } = options;
+  if (raw === null) return defaultValue;
+  let stored: StoredValue;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return defaultValue;
+  }
+  if (typeof stored !== "object" || stored === null || typeof stored.version !== "number") {
+    return defaultValue;
+  }
+  if (stored.version === version) {
+    return validate(stored.data) ? stored.data : defaultValue;
+  }
+  if (stored.version < version && migrate) {
+    const migrated = migrate(stored.data, stored.version);
+    return migrated !== undefined && validate(migrated) ? migrated : defaultValue;
+  }
+  return defaultValue;
+}
+
+export function usePersistentState<T>(
+  options: PersistentStateOptions<T>
+): [T, SetPersistentState<T>, () => void] {
+  const { key, version, area = "local", defaultValue, validate, migrate } = options;
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const onStorage = (event: StorageEvent) => {
+        // key is null when another tab called storage.clear()
+        if (event.storageArea === getStorage(area) && (event.key === key || event.key === null)) {
+          onChange();
+        }
+      };
+      const onLocalChange = (changedKey: string) => {
+        if (changedKey === key) onChange();
+      };
+      window.addEventListener("storage", onStorage);
+      listeners.add(onLocalChange);
+      return () => {
+        window.removeEventListener("storage", onStorage);
+        listeners.delete(onLocalChange);
+      };
+    },
+    [key, area]
+  );
+
+  // The raw string is the snapshot: unchanged strings compare equal, so
+  // React only re-renders when the stored value really changed
+  const raw = useSyncExternalStore(
+    subscribe,
+    () => getStorage(area, key).getItem(key),
+    () => null
+  );
+
+  // Options are usually an inline object, so it's their parts (module-level
+  // functions and constants, in practice) that decide when to decode again
+  const value = useMemo(
+    () => decode(raw, { key, version, defaultValue, validate, migrate }),
+    [raw, key, version, defaultValue, validate, migrate]
+  );
+
+  // The latest options, for setValue: it keeps its identity (like useState's
+  // setter) but must decode with the current defaultValue/validate/migrate
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const setValue = useCallback<SetPersistentState<T>>(
+    (next) => {
+      const storage = getStorage(area, key);
+      // Read the current value from storage, not from the last render, so
+      // quick successive updates don't overwrite each other
+      const current = decode(storage.getItem(key), optionsRef.current);
+      const data = next instanceof Function ? next(current) : next;
+      const stored: StoredValue = { version, data };
+      try {
+        storage.setItem(key, JSON.stringify(stored));
+      } catch (error) {
+        // Quota exceeded: the value won't survive a reload, but the state
+        // (a controlled input, say) still has to update
+        console.warn(`Couldn't save "${key}", keeping it in memory`, error);
+        memoryStorage[area].setItem(key, JSON.stringify(stored));
+        heldInMemory[area].add(key);
+      }
+      for (const listener of listeners) listener(key);
+    },
+    [key, version, area]
+  );
+
+  const clear = useCallback(() => {
+    heldInMemory[area].delete(key);
+    memoryStorage[area].removeItem(key);
+    getStorage(area).removeItem(key);
+    for (const listener of listeners) listener(key);
+  }, [key, area]);
+
+  return [value, setValue, clear];
+}
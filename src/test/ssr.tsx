@@ -0,0 +1,161 @@
+/// <reference types="node" />
+/**
+ * SSR + hydration harness for integration tests
+ *
+ * renderPage() renders a URL with entry-server.tsx's render(), like
+ * src/server/app.ts does, and hydratePage() puts that HTML into jsdom and
+ * hydrates it the way main.tsx does. Both read the bundled fixtures with
+ * the demo's latency, on fake timers (see useFakeFetchTimers()), so a test
+ * decides when each request resolves.
+ *
+ * Server Actions called from the hydrated page don't need a server:
+ * fetch() is stubbed to hand them to entry-server.tsx's callAction().
+ */
+
+import { Writable } from 'node:stream'
+import { StrictMode } from 'react'
+import { act } from '@testing-library/react'
+import { userEvent } from '@testing-library/user-event'
+import { hydrateRoot } from 'react-dom/client'
+import { vi } from 'vitest'
+import App from '../App'
+import { createDataCache } from '../data/cache'
+import { DataCacheContext, DataSourceContext, TimelineContext } from '../data/context'
+import { createFixtureSource } from '../data/fixtureSource'
+import { readHydrationData } from '../data/hydration'
+import { demoLatency, withFaults, type DataSource } from '../data/source'
+import { createTimeline } from '../data/timeline'
+import { rootDiagnostics } from '../diagnostics'
+import { callAction, preloadDemos, render } from '../entry-server'
+import type { ClientErrorReport } from '../server/report'
+
+/**
+ * Fakes setTimeout only: that's what the fetchers' latency (withFaults)
+ * and the Server Actions wait on. React's own scheduling keeps running.
+ */
+export function useFakeFetchTimers() {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+  // Testing Library waits for a setTimeout(0) after every user-event call,
+  // and only advances fake timers itself when they're Jest's
+  vi.stubGlobal('jest', { advanceTimersByTime: (ms: number) => vi.advanceTimersByTime(ms) })
+}
+
+/** The bundled fixtures with the demo's latency, as in the static build. */
+export function createDemoSource(): DataSource {
+  return withFaults(createFixtureSource(), { latency: demoLatency })
+}
+
+export interface ServerPage {
+  /** Everything inside #root. */
+  html: string
+  /** The hydration payload's <script> tag. */
+  dataScript: string
+}
+
+/**
+ * Renders a URL to completion. Suspended boundaries are waited for (the
+ * fake timers are run until they resolve), and the HTML is only piped
+ * afterwards: all of it arrives in place, without the inline scripts that
+ * stream boundaries in (innerHTML wouldn't run them).
+ */
+export async function renderPage(url: string, dataSource: DataSource = createDemoSource()) {
+  await preloadDemos()
+  let page: ServerPage | undefined
+  let failure: unknown
+  let html = ''
+  const { pipe, getDataScript } = render(url, undefined, {
+    onAllReady() {
+      pipe(
+        new Writable({
+          write(chunk, _encoding, callback) {
+            html += chunk
+            callback()
+          },
+          final(callback) {
+            page = { html, dataScript: getDataScript() }
+            callback()
+          },
+        })
+      )
+    },
+    onShellError: (error) => (failure = error),
+  }, dataSource)
+
+  // Each step lets React (on setImmediate) render what the timers resolved
+  for (let step = 0; !page && failure === undefined; step++) {
+    if (step > 100) throw new Error(`Rendering ${url} never finished`)
+    await vi.advanceTimersToNextTimerAsync()
+    await new Promise((resolve) => setImmediate(resolve))
+  }
+  releaseContexts()
+  if (failure !== undefined) throw failure
+  return page!
+}
+
+// Fizz marks every context it provides as its own and never unmarks it: a
+// server doesn't go on to render on the client. Once the render above has
+// finished, hand the providers the client renders over to it, or it warns
+// about "multiple renderers concurrently rendering" them
+function releaseContexts() {
+  for (const context of [DataSourceContext, DataCacheContext, TimelineContext]) {
+    Object.assign(context, { _currentRenderer: null })
+  }
+}
+
+// Answers Server Action calls (see actions/client.ts) like server/app.ts
+function serveActions(): typeof fetch {
+  return async (input, init) => {
+    const match = String(input).match(/\/__actions\/([^/?]+)$/)
+    if (!match) throw new Error(`Unexpected fetch in test: ${String(input)}`)
+    const response = await callAction(match[1], String(init?.body))
+    if (!response) return Response.json({ error: `Unknown action "${match[1]}"` }, { status: 404 })
+    return Response.json(response, { status: 'error' in response ? 400 : 200 })
+  }
+}
+
+/**
+ * Renders a URL on the "server", then hydrates it in jsdom with a fresh
+ * cache seeded from the payload, like main.tsx. Returns the root, what
+ * rootDiagnostics() reported (hydration mismatches among them), and a
+ * user-event instance that advances the fake timers.
+ */
+export async function hydratePage(url: string, dataSource: DataSource = createDemoSource()) {
+  const { html, dataScript } = await renderPage(url, dataSource)
+  window.history.replaceState(null, '', url)
+  document.body.innerHTML = `<div id="root">${html}</div>${dataScript}`
+  vi.stubGlobal('fetch', serveActions())
+
+  const reports: ClientErrorReport[] = []
+  const { data, formState, timeline: serverEvents } = readHydrationData()
+  const dataCache = createDataCache()
+  dataCache.seed(data)
+  const timeline = createTimeline({ side: 'client' })
+  timeline.seed(serverEvents)
+
+  const root = await act(async () =>
+    hydrateRoot(
+      document.getElementById('root')!,
+      <StrictMode>
+        <DataSourceContext value={dataSource}>
+          <DataCacheContext value={dataCache}>
+            <TimelineContext value={timeline}>
+              <App />
+            </TimelineContext>
+          </DataCacheContext>
+        </DataSourceContext>
+      </StrictMode>,
+      {
+        formState,
+        ...rootDiagnostics({ mode: 'report', send: (_url, report) => reports.push(report) }),
+      }
+    )
+  )
+
+  return {
+    root,
+    reports,
+    user: userEvent.setup({ advanceTimers: vi.advanceTimersByTime }),
+    /** Lets `ms` of fetch latency pass, and React render what resolved. */
+    advance: (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms)),
+  }
+}
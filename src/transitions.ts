@@ -0,0 +1,66 @@
+/**
+ * UNIVERSAL MODULE (Runs on BOTH server and client)
+ *
+ * Two ways to animate a React update with the View Transitions API:
+ *
+ * - startViewTransition(): the manual way. The browser snapshots the page,
+ *   then flushSync() applies the update synchronously inside the callback
+ *   so the browser can snapshot the result and animate between the two
+ * - startComponentTransition(): the React way. A plain startTransition();
+ *   React itself starts the view transition and animates every
+ *   <ViewTransition> boundary (see ViewTransition.tsx) the update touches
+ *
+ * Stable React 19.2 does not export <ViewTransition> yet (canary and
+ * experimental builds do), so the component way falls back to the manual
+ * one when it's missing. Without browser support both simply apply the
+ * update. On the server nothing here is ever called.
+ */
+
+import * as React from "react";
+import { startTransition, type ComponentType, type ReactNode } from "react";
+import { flushSync } from "react-dom";
+
+// The subset of React's ViewTransitionProps this app uses. Class names
+// end up in the CSS `view-transition-class` property
+export interface ViewTransitionProps {
+  children: ReactNode;
+  name?: string;
+  default?: string;
+  enter?: string;
+  exit?: string;
+  share?: string;
+}
+
+// Read through the namespace: a named import would fail to build on
+// React versions without the export
+const reactExports = React as unknown as Record<string, unknown>;
+
+export const ReactViewTransition = (reactExports.ViewTransition ??
+  reactExports.unstable_ViewTransition) as
+  | ComponentType<ViewTransitionProps>
+  | undefined;
+
+export function supportsViewTransitions(): boolean {
+  return (
+    typeof document !== "undefined" &&
+    typeof document.startViewTransition === "function"
+  );
+}
+
+export function startViewTransition(update: () => void) {
+  if (!supportsViewTransitions()) {
+    update();
+    return;
+  }
+  document.startViewTransition(() => {
+    flushSync(update);
+  });
+}
+
+export function startComponentTransition(update: () => void) {
+  if (ReactViewTransition) {
+    startTransition(update);
+  } else {
+    startViewTransition(update);
+  }
+}
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Public origin of the deployment, used for canonical and Open Graph URLs (see head.ts). */
+  readonly VITE_SITE_URL?: string
+  /** "fixtures" makes the browser read bundled data instead of the REST API (static build, see main.tsx). */
+  readonly VITE_DATA_SOURCE?: 'rest' | 'fixtures'
+}
@@ -1,18 +1,150 @@
 /// <reference types="vitest" />
+import fs from 'node:fs'
+import path from 'node:path'
+import { gzipSync } from 'node:zlib'
 import { defineConfig } from 'vitest/config'
+import { defaultServerConditions, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const base = process.env.BASE_URL || '/'
+
+/**
+ * Turns 'use client' modules into client references for the RSC build.
+ *
+ * Server Components import Client Components like any other module. In the
+ * RSC bundle each export is replaced by a reference named after the module
+ * ("/src/rsc/client/ClientCounter.tsx#ClientCounter"), so only that name
+ * ends up in the RSC payload and the browser renders its own copy.
+ */
+function useClientReferences(): Plugin {
+  return {
+    name: 'use-client-references',
+    transform(code, id) {
+      if (!/^\s*['"]use client['"]/.test(code)) return
+      const moduleId = `/${path.relative(process.cwd(), id).split(path.sep).join('/')}`
+      const exportNames = [
+        ...code.matchAll(/export\s+(?:async\s+)?(?:function|const|let|class)\s+(\w+)/g),
+      ].map((match) => match[1])
+
+      return [
+        `import { registerClientReference } from 'react-server-dom-webpack/server'`,
+        ...exportNames.map(
+          (name) =>
+            `export const ${name} = registerClientReference(function () {` +
+            ` throw new Error(${JSON.stringify(`${name} is a Client Component and can't be called on the server`)}) },` +
+            ` ${JSON.stringify(moduleId)}, ${JSON.stringify(name)})`
+        ),
+      ].join('\n')
+    },
+  }
+}
+
+interface ChunkSize {
+  file: string
+  name: string
+  bytes: number
+  gzipBytes: number
+  budget: number
+}
+
+// Same units as Vite's own build output
+const kB = (bytes: number) => `${(bytes / 1000).toFixed(2)} kB`
+
+/**
+ * Reports the size of every JS and CSS file in the client build, one line
+ * per chunk, and writes the numbers to .vite/size-report.json.
+ *
+ * Each chunk has a gzip budget (by chunk name, e.g. "index" or
+ * "SuspenseDemo"; `default` for the rest). Going over it is a build
+ * warning, so a demo that pulls in a big dependency shows up right away.
+ */
+function chunkSizeReport(budgets: { default: number } & Record<string, number>): Plugin {
+  let report: ChunkSize[] = []
+
+  return {
+    name: 'chunk-size-report',
+    apply: 'build',
+    applyToEnvironment: (environment) => environment.name === 'client',
+    // Vite's own post plugins (import analysis, the preload helper) still
+    // rewrite chunks in generateBundle, so the sizes are read from the
+    // files as written
+    writeBundle({ dir }, bundle) {
+      const outDir = dir!
+      report = Object.values(bundle)
+        .filter((output) => /\.(js|css)$/.test(output.fileName))
+        .map((output) => {
+          const content = fs.readFileSync(path.join(outDir, output.fileName))
+          const name = output.type === 'chunk' ? output.name : (output.names[0] ?? output.fileName)
+          return {
+            file: output.fileName,
+            name,
+            bytes: Buffer.byteLength(content),
+            gzipBytes: gzipSync(content).length,
+            budget: budgets[name] ?? budgets.default,
+          }
+        })
+        .sort((a, b) => b.gzipBytes - a.gzipBytes)
+
+      fs.mkdirSync(path.join(outDir, '.vite'), { recursive: true })
+      fs.writeFileSync(path.join(outDir, '.vite/size-report.json'), JSON.stringify(report, null, 2))
+      for (const chunk of report) {
+        if (chunk.gzipBytes > chunk.budget) {
+          this.warn(`${chunk.file} is ${kB(chunk.gzipBytes)} gzipped, over its ${kB(chunk.budget)} budget`)
+        }
+      }
+    },
+    closeBundle() {
+      const width = Math.max(...report.map((chunk) => chunk.name.length))
+      console.log('\nChunk sizes (gzip / budget):')
+      for (const { name, bytes, gzipBytes, budget } of report) {
+        const status = gzipBytes > budget ? 'OVER' : 'ok'
+        console.log(
+          `  ${name.padEnd(width)}  ${kB(bytes).padStart(10)}  ${kB(gzipBytes).padStart(9)} / ${kB(budget).padStart(9)}  ${status}`
+        )
+      }
+    },
+  }
+}
+
 // https://vite.dev/config/
-export default defineConfig({
-  base: process.env.BASE_URL || '/',
-  plugins: [react()],
-  build: {
-    manifest: true,
-    ssrManifest: true,
-  },
-  test: {
-    globals: true,
-    environment: 'jsdom',
-    setupFiles: './src/test/setup.ts',
-  },
+export default defineConfig(({ mode }) => {
+  // React Server Components bundle: `vite build --mode rsc`.
+  // Everything, React included, is bundled with the "react-server" export
+  // condition, so it can run next to the regular SSR bundle in one process.
+  if (mode === 'rsc') {
+    return {
+      base,
+      plugins: [react(), useClientReferences()],
+      ssr: {
+        noExternal: true,
+        resolve: {
+          conditions: ['react-server', ...defaultServerConditions],
+        },
+      },
+      build: {
+        ssr: 'src/rsc/entry-rsc.tsx',
+        outDir: 'dist/rsc',
+        emptyOutDir: true,
+        copyPublicDir: false,
+      },
+    }
+  }
+
+  return {
+    base,
+    plugins: [
+      react(),
+      // gzip budgets per client chunk, in bytes
+      chunkSizeReport({ index: 75_000, 'client.browser': 10_000, default: 10_000 }),
+    ],
+    build: {
+      manifest: true,
+      ssrManifest: true,
+    },
+    test: {
+      globals: true,
+      environment: 'jsdom',
+      setupFiles: './src/test/setup.ts',
+    },
+  }
 })